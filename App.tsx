@@ -1,12 +1,65 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import Header from './components/Header';
 import FileUpload from './components/FileUpload';
 import AnalysisResult from './components/AnalysisResult';
 import BatchProcessor from './components/BatchProcessor';
-import { AnalysisState, AnalysisInput, SpecRow, ValidationConfig, BatchState, BatchItem } from './types';
-import { analyzeContent } from './services/geminiService';
-import { parseSpecFile, findMatchingSpec, findAllMatchingSpecs, validateDimensions } from './utils/validation';
-import { Activity, ArrowLeft } from 'lucide-react';
+import RecentSessions from './components/RecentSessions';
+import SpecMappingView from './components/SpecMappingView';
+import SpecLintReport from './components/SpecLintReport';
+import FilenameRulesView from './components/FilenameRulesView';
+import {
+  AnalysisState, AnalysisInput, SpecRow, ValidationConfig, BatchState, BatchItem, ProviderSettings, BatchConfig, ColumnMapping,
+  SpecIssue, FilenameRules, DuplicateConfig, GeminiResponse
+} from './types';
+import { analyzeContent, mergeResponses } from './services/geminiService';
+import { DEFAULT_PROVIDER_SETTINGS } from './services/providers';
+import { createRequestScheduler, DEFAULT_BATCH_CONFIG, ThrottledError } from './services/requestScheduler';
+import {
+  createSessionId, saveSession, loadSession, toStoredItem, fromStoredItem, reattachFiles
+} from './services/sessionStore';
+import { downloadBatchReport } from './utils/batchReport';
+import { lintSpecs } from './utils/specLint';
+import { hashBase64, hashContent, withResultCache } from './services/resultCache';
+import { parseSpecFile, listSpecSheets, validateDimensions } from './utils/validation';
+import { matchSpecs } from './utils/specMatching';
+import { readImageInfo, withSourceInfo, checkImage, resolveImageRules } from './utils/imageChecks';
+import { assessImageQuality, DEFAULT_QUALITY_CONFIG } from './utils/imageQuality';
+import { computeImageHash, groupDuplicates, DEFAULT_DUPLICATE_CONFIG } from './utils/imageHash';
+import { prepareImage, base64ToBlob, DEFAULT_UPLOAD_CONFIG } from './utils/imagePreprocess';
+import { expandSourceFiles, formatItemName, loadPageImage } from './utils/documentPages';
+import { Activity, ArrowLeft, AlertTriangle, ClipboardCheck } from 'lucide-react';
+
+// Longest a batch change waits before it is written to the session store
+const SESSION_SAVE_INTERVAL_MS = 500;
+
+// Items still queued (including throttled ones put back) or in flight don't count as progress
+const countFinished = (items: BatchItem[]): number =>
+  items.filter(it => it.status !== 'PENDING' && it.status !== 'PROCESSING').length;
+
+// Local header read, rule check and (for duplicate detection) perceptual hash; no AI involved,
+// so skipped images are checked too
+const inspectImage = async (item: BatchItem, config: ValidationConfig, withHash: boolean): Promise<Partial<BatchItem>> => {
+  const image = await loadPageImage(item).catch(() => undefined);
+  const rendered = image && await readImageInfo(image).catch(() => undefined);
+  const imageInfo = rendered && item.sourceInfo ? withSourceInfo(rendered, item.sourceInfo) : rendered;
+  const imageHash = withHash && image && imageInfo ? await computeImageHash(image) : item.imageHash;
+  return { imageInfo, imageCheck: checkImage(imageInfo, resolveImageRules(config.imageRules, item.matchedSpecs)), imageHash };
+};
+
+// An extraction shared within a duplicate group, and the file it was made from
+interface SharedExtraction {
+  response: GeminiResponse;
+  fileName: string;
+}
+
+const needsInspection = (item: BatchItem, duplicates: DuplicateConfig): boolean =>
+  !item.fileMissing && (!item.imageCheck || (duplicates.enabled && !item.imageHash && item.imageCheck.status !== 'UNREADABLE'));
+
+// Rule or spec changes re-check from the stored header data instead of reading the file again
+const recheckImage = (item: BatchItem, config: ValidationConfig): BatchItem =>
+  item.imageCheck
+    ? { ...item, imageCheck: checkImage(item.imageInfo, resolveImageRules(config.imageRules, item.matchedSpecs)) }
+    : item;
 
 const App: React.FC = () => {
   // Single Mode State
@@ -21,33 +74,124 @@ const App: React.FC = () => {
   const [batchState, setBatchState] = useState<BatchState>({
     items: [],
     isProcessing: false,
+    isPaused: false,
     progress: 0,
+    inFlight: 0,
     total: 0
   });
 
+  // Run controls are refs so the running worker loop sees them without re-rendering
+  const pauseRequestedRef = useRef(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const lastSessionSaveRef = useRef(0);
+
+  // Session persistence (IndexedDB)
+  const [session, setSession] = useState<{ id: string; name: string; createdAt: number } | null>(null);
+
   // Shared Config State
   const [specs, setSpecs] = useState<SpecRow[]>([]);
   const [currentSpecFile, setCurrentSpecFile] = useState<File | null>(null);
+  const [specSheetNames, setSpecSheetNames] = useState<string[]>([]);
+  const [showMapping, setShowMapping] = useState(false);
+  const [specIssues, setSpecIssues] = useState<SpecIssue[]>([]);
+  const [showSpecLint, setShowSpecLint] = useState(false);
+  const [showFilenameRules, setShowFilenameRules] = useState(false);
   const [specConfig, setSpecConfig] = useState<ValidationConfig>({ startCol: 'G', endCol: 'M' });
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(DEFAULT_PROVIDER_SETTINGS);
+  const [batchConfig, setBatchConfig] = useState<BatchConfig>(DEFAULT_BATCH_CONFIG);
 
   // Re-parse specs when config or file changes
   useEffect(() => {
     if (currentSpecFile) {
-        parseSpecFile(currentSpecFile, specConfig)
+        const parseIssues: SpecIssue[] = [];
+        parseSpecFile(currentSpecFile, specConfig, parseIssues)
             .then((parsed) => {
                 setSpecs(parsed);
+                setSpecIssues(lintSpecs(parsed, parseIssues));
                 console.log(`Reparsed ${parsed.length} specs with config`, specConfig);
             })
             .catch(err => console.error("Failed to reparse specs", err));
     }
   }, [specConfig, currentSpecFile]);
 
+  // Save the running batch at most every SESSION_SAVE_INTERVAL_MS while it changes. The wait counts
+  // from the last save, not the last change, so a steady stream of updates can't postpone it and a
+  // crash loses at most the last interval's results.
+  useEffect(() => {
+    if (!session || batchState.items.length === 0) return;
+    const save = () => {
+      lastSessionSaveRef.current = Date.now();
+      const { apiKey, ...storedProvider } = providerSettings;
+      saveSession({
+        id: session.id,
+        name: session.name,
+        createdAt: session.createdAt,
+        updatedAt: Date.now(),
+        specFileName: currentSpecFile?.name,
+        specs,
+        config: specConfig,
+        providerSettings: storedProvider,
+        items: batchState.items.map(toStoredItem)
+      }).catch(err => console.error("Failed to save session", err));
+    };
+    const wait = lastSessionSaveRef.current + SESSION_SAVE_INTERVAL_MS - Date.now();
+    if (wait <= 0) {
+      save();
+      return;
+    }
+    const timer = setTimeout(save, wait);
+    return () => clearTimeout(timer);
+  }, [batchState.items, session]);
+
   const handleSpecsLoaded = async (file: File) => {
     setCurrentSpecFile(file); // This triggers the useEffect
+    listSpecSheets(file)
+        .then(setSpecSheetNames)
+        .catch(err => console.error("Failed to list spec sheets", err));
   };
 
+  // The settings popover doesn't know about the column mapping or filename rules, so keep them across applies
   const handleConfigChange = (newConfig: ValidationConfig) => {
-      setSpecConfig(newConfig);
+      const next = { ...newConfig, columnMapping: specConfig.columnMapping, filenameRules: specConfig.filenameRules };
+      setSpecConfig(next);
+      if (!batchState.isProcessing) {
+          setBatchState(prev => ({ ...prev, items: prev.items.map(item => recheckImage(item, next)) }));
+      }
+      if (JSON.stringify(next.matching) !== JSON.stringify(specConfig.matching)) rematchItems(next);
+  };
+
+  const handleMappingApply = (mapping: ColumnMapping | undefined) => {
+      setSpecConfig(prev => ({ ...prev, columnMapping: mapping }));
+      setShowMapping(false);
+  };
+
+  // New filename rules or match settings re-match queued and skipped images; processed and
+  // hand-assigned ones keep their specs. A running batch works on its own copy of the items,
+  // so it is left alone.
+  const rematchItems = (config: ValidationConfig) => {
+      if (batchState.isProcessing || specs.length === 0) return;
+
+      setBatchState(prev => {
+          const items = prev.items.map(item => {
+              if (item.aiResponse || item.matchReason === 'manual' || !['PENDING', 'SKIPPED'].includes(item.status)) return item;
+              const match = matchSpecs(item.file.name, specs, config.matching, config.filenameRules);
+              return recheckImage({
+                  ...item,
+                  status: 'PENDING' as const,
+                  error: undefined,
+                  matchedSpecs: match ? match.specs : [],
+                  matchScore: match?.score,
+                  matchReason: match?.reason
+              }, config);
+          });
+          return { ...prev, items, progress: countFinished(items) };
+      });
+  };
+
+  const handleFilenameRulesApply = (rules: FilenameRules | undefined) => {
+      setSpecConfig(prev => ({ ...prev, filenameRules: rules }));
+      setShowFilenameRules(false);
+      rematchItems({ ...specConfig, filenameRules: rules });
   };
 
   // --- Single Analysis ---
@@ -60,15 +204,31 @@ const App: React.FC = () => {
     });
 
     try {
-      const geminiResult = await analyzeContent(data);
+      const contentHash = data.type === 'image' ? await hashBase64(data.content) : await hashContent(new Blob([data.content]));
+      const { response: geminiResult } = await withResultCache(
+        contentHash,
+        providerSettings,
+        async () => {
+          if (data.type !== 'image') return analyzeContent({ ...data, numberLocale: specConfig.numberLocale }, providerSettings);
+          const parts = await prepareImage(base64ToBlob(data.content, data.mimeType), providerSettings.upload || DEFAULT_UPLOAD_CONFIG);
+          return mergeResponses(await Promise.all(parts.map(part => analyzeContent({
+            ...data,
+            content: part.data,
+            mimeType: part.mimeType,
+            numberLocale: specConfig.numberLocale,
+            tile: part.tile
+          }, providerSettings))));
+        },
+        specConfig.numberLocale
+      );
       let validationResult;
       
       if (specs.length > 0 && data.fileName) {
-         const match = findMatchingSpec(data.fileName, specs);
+         const match = matchSpecs(data.fileName, specs, specConfig.matching, specConfig.filenameRules);
          if (match) {
-           validationResult = validateDimensions(geminiResult.dimensions, match);
+           validationResult = validateDimensions(geminiResult, match.specs[0], specConfig);
          } else {
-           validationResult = { status: 'NO_MATCH', matches: [], missing: [], extra: [] } as any;
+           validationResult = { status: 'NO_MATCH', matches: [], mismatches: [], missing: [], extra: [] } as any;
          }
       }
 
@@ -88,112 +248,372 @@ const App: React.FC = () => {
   };
 
   // --- Batch Setup ---
-  const handleBatchSelection = (files: File[]) => {
+  const handleBatchSelection = async (files: File[]) => {
+    // PDFs and multi-page TIFFs become one row per page, all under the source file's name
+    const pages = await expandSourceFiles(files);
     setIsBatchMode(true);
+
+    const folder = files[0]?.webkitRelativePath?.split('/')[0];
+    setSession({
+        id: createSessionId(),
+        name: `${folder || 'Batch'} (${pages.length} images)`,
+        createdAt: Date.now()
+    });
     
     // Pre-calculate matches to give immediate feedback
-    const items: BatchItem[] = files.map((file, index) => ({
-        id: `batch-${index}-${Date.now()}`,
-        file,
-        status: 'PENDING',
-        matchedSpecs: specs.length > 0 ? findAllMatchingSpecs(file.name, specs) : []
-    }));
+    const items: BatchItem[] = pages.map(({ file, sourceType, sourceInfo, page, pageCount }, index) => {
+        const match = matchSpecs(file.name, specs, specConfig.matching, specConfig.filenameRules);
+        return {
+            id: `batch-${index}-${Date.now()}`,
+            file,
+            ...(sourceType ? { sourceType, sourceInfo } : {}),
+            ...(page ? { page, pageCount } : {}),
+            status: 'PENDING',
+            matchedSpecs: match ? match.specs : [],
+            ...(match ? { matchScore: match.score, matchReason: match.reason } : {})
+        };
+    });
 
     setBatchState({
         items,
         isProcessing: false,
+        isPaused: false,
         progress: 0,
+        inFlight: 0,
+        total: items.length
+    });
+    inspectImages(items);
+  };
+
+  // Fills in image checks row by row after the folder loads, then groups duplicates.
+  // A run started meanwhile inspects the remaining rows itself before its first AI call.
+  const inspectImages = async (targets: BatchItem[], duplicates = batchConfig.duplicates || DEFAULT_DUPLICATE_CONFIG) => {
+    for (const target of targets) {
+        const patch = await inspectImage(target, specConfig, duplicates.enabled);
+        setBatchState(prev => ({
+            ...prev,
+            items: prev.items.map(item => (item.id === target.id ? { ...item, ...patch } : item))
+        }));
+    }
+    setBatchState(prev => (prev.isProcessing ? prev : { ...prev, items: groupDuplicates(prev.items, duplicates) }));
+  };
+
+  // --- Saved Sessions ---
+  const handleOpenSession = async (sessionId: string) => {
+    const saved = await loadSession(sessionId);
+    if (!saved) return;
+
+    // Use the spec snapshot from the run, not whatever workbook is loaded now
+    setCurrentSpecFile(null);
+    setSpecs(saved.specs);
+    setSpecIssues(lintSpecs(saved.specs));
+    setSpecConfig(saved.config);
+    setProviderSettings(prev => ({ ...saved.providerSettings, apiKey: prev.apiKey }));
+
+    const items = saved.items.map(fromStoredItem);
+    setSession({ id: saved.id, name: saved.name, createdAt: saved.createdAt });
+    setBatchState({
+        items,
+        isProcessing: false,
+        isPaused: false,
+        progress: countFinished(items),
+        inFlight: 0,
         total: items.length
     });
+    setIsBatchMode(true);
+  };
+
+  const handleExportSession = async (sessionId: string) => {
+    const saved = await loadSession(sessionId);
+    if (saved) downloadBatchReport(saved.items.map(fromStoredItem));
+  };
+
+  const handleReattach = async (files: File[]) => {
+    // Only files that belong to the session are decoded, so re-attaching a folder of PDFs stays quick
+    const missing = new Set(batchState.items.filter(item => item.fileMissing).map(item => item.file.name));
+    const pages = await expandSourceFiles(files.filter(file => missing.has(file.name)));
+    const items = reattachFiles(batchState.items, pages);
+    setBatchState(prev => ({ ...prev, items }));
+    inspectImages(items.filter(item => needsInspection(item, batchConfig.duplicates || DEFAULT_DUPLICATE_CONFIG)));
+  };
+
+  // Duplicate settings regroup the loaded images; hashes are computed if detection was off until now
+  const handleBatchConfigChange = (config: BatchConfig) => {
+    setBatchConfig(config);
+    if (batchState.isProcessing) return;
+    const duplicates = config.duplicates || DEFAULT_DUPLICATE_CONFIG;
+    const targets = batchState.items.filter(item => needsInspection(item, duplicates));
+    if (targets.length > 0) {
+        inspectImages(targets, duplicates);
+    } else {
+        setBatchState(prev => ({ ...prev, items: groupDuplicates(prev.items, duplicates) }));
+    }
+  };
+
+  // Manual spec assignment: re-validate an existing extraction, otherwise queue the image again
+  const handleAssignSpecs = (itemId: string, assigned: SpecRow[]) => {
+    setBatchState(prev => {
+        const items = prev.items.map(item => {
+            if (item.id !== itemId) return item;
+            const manual = recheckImage({ ...item, matchedSpecs: assigned, matchScore: 1, matchReason: 'manual', error: undefined }, specConfig);
+            if (item.aiResponse) {
+                return {
+                    ...manual,
+                    status: 'COMPLETED' as const,
+                    validations: assigned.map(spec => validateDimensions(item.aiResponse!, spec, specConfig))
+                };
+            }
+            return { ...manual, status: 'PENDING' as const, validations: undefined, retries: undefined };
+        });
+        return { ...prev, items, progress: countFinished(items) };
+    });
+  };
+
+  // Send a preflight-skipped image to the AI on the next run despite its quality
+  const handleAcceptQuality = (itemId: string) => {
+    setBatchState(prev => {
+        const items = prev.items.map(item => (item.id === itemId && item.quality
+            ? { ...item, status: 'PENDING' as const, error: undefined, quality: { ...item.quality, accepted: true } }
+            : item));
+        return { ...prev, items, progress: countFinished(items) };
+    });
   };
 
   // --- Batch Execution ---
   const processBatch = async () => {
     if (batchState.isProcessing) return;
 
-    setBatchState(prev => ({ ...prev, isProcessing: true }));
+    pauseRequestedRef.current = false;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setBatchState(prev => ({ ...prev, isProcessing: true, isPaused: false }));
 
-    const items = [...batchState.items];
-    
-    for (let i = 0; i < items.length; i++) {
-        // Skip items already processed
-        if (items[i].status === 'COMPLETED' || items[i].status === 'SKIPPED') continue;
+    // Cancelled rows go back in the queue, like failed ones
+    const items = batchState.items.map(item =>
+        item.status === 'CANCELLED' ? { ...item, status: 'PENDING' as const, error: undefined } : item
+    );
+    const scheduler = createRequestScheduler(batchConfig);
+    let inFlight = 0;
 
-        // CRITICAL UPDATE: Cost Optimization
-        // If no specs match this image, SKIP it immediately. Do NOT call AI.
-        if (items[i].matchedSpecs.length === 0) {
-            items[i].status = 'SKIPPED';
-            items[i].error = "Skipped: No matching Spec Row found";
-            
-            // Update state to show skipped status
-            setBatchState(prev => ({ 
-                ...prev, 
-                items: [...items], 
-                progress: i + 1 
-            }));
-            
-            continue; // Move to next item immediately
+    const publish = () => {
+        setBatchState(prev => ({
+            ...prev,
+            items: [...items],
+            progress: countFinished(items),
+            inFlight
+        }));
+    };
+
+    // Replace the item object so only its own row re-renders with the new data
+    const updateItem = (index: number, patch: Partial<BatchItem>) => {
+        items[index] = { ...items[index], ...patch };
+        publish();
+    };
+
+    // Local checks and hashes first, so duplicate groups are complete before the first AI call
+    const duplicates = batchConfig.duplicates || DEFAULT_DUPLICATE_CONFIG;
+    for (let i = 0; i < items.length && !pauseRequestedRef.current; i++) {
+        if (needsInspection(items[i], duplicates)) {
+            items[i] = { ...items[i], ...(await inspectImage(items[i], specConfig, duplicates.enabled)) };
+        }
+    }
+    groupDuplicates(items, duplicates).forEach((item, i) => { items[i] = item; });
+    publish();
+
+    // The first image of a duplicate group to get this far claims the group and the others
+    // wait for its extraction. A claim settles with undefined when its image gets none.
+    const reuse = duplicates.enabled && duplicates.reuseResults;
+    const groupClaims = new Map<string, Promise<SharedExtraction | undefined>>();
+    if (reuse) {
+        items.forEach(item => {
+            const key = item.duplicateOf || item.id;
+            if (item.status === 'COMPLETED' && item.aiResponse && !groupClaims.has(key)) {
+                groupClaims.set(key, Promise.resolve({ response: item.aiResponse, fileName: item.reusedFrom || formatItemName(item) }));
+            }
+        });
+    }
+
+    const analyseItem = async (i: number) => {
+        // Document pages are rendered here rather than at load, so only the pages in flight are in memory
+        let image: File;
+        try {
+            image = await loadPageImage(items[i]);
+        } catch (err: any) {
+            console.error(`Error rendering ${formatItemName(items[i])}`, err);
+            updateItem(i, { status: 'ERROR', error: `Could not render the page: ${err.message}` });
+            return;
+        }
+
+        // Quality preflight: blank, blurry or text-free images can't yield readable callouts.
+        // Metrics are kept on the item, so a re-run only re-applies the thresholds.
+        const qualityConfig = batchConfig.quality || DEFAULT_QUALITY_CONFIG;
+        if (qualityConfig.action !== 'off') {
+            const quality = await assessImageQuality(image, qualityConfig, items[i].quality);
+            if (quality) updateItem(i, { quality });
+            if (qualityConfig.action === 'skip' && quality?.failures.length && !quality.accepted) {
+                updateItem(i, { status: 'SKIPPED', error: `Skipped: ${quality.failures.join('; ')}` });
+                return;
+            }
         }
 
         // Only proceed to AI if we have matches
-        items[i].status = 'PROCESSING';
-        setBatchState(prev => ({ ...prev, items: [...items] }));
+        inFlight++;
+        updateItem(i, { status: 'PROCESSING' });
 
         try {
-            // Convert file to base64
-            const base64Content = await new Promise<string>((resolve, reject) => {
-                const reader = new FileReader();
-                reader.onload = () => {
-                    const res = reader.result as string;
-                    resolve(res.split(',')[1]); // remove data url prefix
-                };
-                reader.onerror = reject;
-                reader.readAsDataURL(items[i].file);
+            // 1. Call AI (Once per image, or once per crop when tiled), throttled and retried by the
+            // shared scheduler; repair attempts take a slot of their own. Cache hits never reach the
+            // scheduler, so re-runs don't spend the budget.
+            let tiles: number | undefined;
+            const { response: aiResult, cached } = await withResultCache(
+                await hashContent(image),
+                providerSettings,
+                async () => {
+                    const parts = await prepareImage(image, providerSettings.upload || DEFAULT_UPLOAD_CONFIG);
+                    if (parts.length > 1) tiles = parts.length;
+                    return mergeResponses(await Promise.all(parts.map(part => scheduler.schedule(
+                        (signal) => analyzeContent({
+                            type: 'image',
+                            content: part.data,
+                            mimeType: part.mimeType,
+                            fileName: items[i].file.name,
+                            numberLocale: specConfig.numberLocale,
+                            tile: part.tile
+                        }, providerSettings, signal, () => scheduler.acquire(signal)),
+                        {
+                            onRetry: (attempt) => updateItem(i, { retries: attempt }),
+                            signal: controller.signal
+                        }
+                    ))));
+                },
+                specConfig.numberLocale
+            );
+
+            // 2. Validate against ALL matched specs
+            // We already know length > 0 because of the check above
+            inFlight--;
+            updateItem(i, {
+                aiResponse: aiResult,
+                cached,
+                reusedFrom: undefined,
+                tiles,
+                validations: items[i].matchedSpecs.map(spec =>
+                    validateDimensions(aiResult, spec, specConfig)
+                ),
+                status: 'COMPLETED',
+                error: undefined
             });
 
-            // 1. Call AI (Once per image)
-            const aiResult = await analyzeContent({
-                type: 'image',
-                content: base64Content,
-                mimeType: items[i].file.type,
-                fileName: items[i].file.name
+        } catch (err: any) {
+            inFlight--;
+            if (controller.signal.aborted) {
+                updateItem(i, { status: 'CANCELLED', error: 'Cancelled by user' });
+                return;
+            }
+            console.error(`Error processing ${formatItemName(items[i])}`, err);
+            // Only rate-limited: leave it queued so the next run picks it up
+            updateItem(i, {
+                status: err instanceof ThrottledError ? 'PENDING' : 'ERROR',
+                error: err.message
             });
+        }
+    };
 
-            items[i].aiResponse = aiResult;
+    const processItem = async (i: number) => {
+        // Skip items already processed or cancelled
+        if (['COMPLETED', 'SKIPPED', 'CANCELLED'].includes(items[i].status)) return;
 
-            // 2. Validate against ALL matched specs
-            // We already know length > 0 because of the check above
-            items[i].validations = items[i].matchedSpecs.map(spec => 
-                validateDimensions(aiResult.dimensions, spec)
-            );
+        // Restored session without the image: leave it queued until it is re-attached
+        if (items[i].fileMissing) {
+            updateItem(i, { error: 'Image not attached. Re-attach the folder to process it.' });
+            return;
+        }
+
+        // CRITICAL UPDATE: Cost Optimization
+        // If no specs match this image, SKIP it immediately. Do NOT call AI.
+        if (items[i].matchedSpecs.length === 0) {
+            updateItem(i, { status: 'SKIPPED', error: "Skipped: No matching Spec Row found" });
+            return; // Move to next item immediately
+        }
 
-            items[i].status = 'COMPLETED';
+        if (!reuse) return analyseItem(i);
 
-        } catch (err: any) {
-            console.error(`Error processing ${items[i].file.name}`, err);
-            items[i].status = 'ERROR';
-            items[i].error = err.message;
+        const key = items[i].duplicateOf || items[i].id;
+        const claim = groupClaims.get(key);
+        if (!claim) {
+            let settle: (shared?: SharedExtraction) => void = () => {};
+            groupClaims.set(key, new Promise(resolve => { settle = resolve; }));
+            try {
+                await analyseItem(i);
+            } finally {
+                const { status, aiResponse } = items[i];
+                settle(status === 'COMPLETED' && aiResponse ? { response: aiResponse, fileName: formatItemName(items[i]) } : undefined);
+            }
+            return;
         }
 
-        // Update progress
-        setBatchState(prev => ({ 
-            ...prev, 
-            items: [...items], 
-            progress: i + 1 
-        }));
+        // Same picture as one already analysed: copy its extraction, validate against this image's specs
+        updateItem(i, { status: 'PROCESSING' });
+        const shared = await claim;
+        if (!shared && controller.signal.aborted) {
+            updateItem(i, { status: 'CANCELLED', error: 'Cancelled by user' });
+            return;
+        }
+        if (!shared) return analyseItem(i);
+        updateItem(i, {
+            aiResponse: shared.response,
+            cached: false,
+            reusedFrom: shared.fileName,
+            tiles: undefined,
+            validations: items[i].matchedSpecs.map(spec => validateDimensions(shared.response, spec, specConfig)),
+            status: 'COMPLETED',
+            error: undefined
+        });
+    };
 
-        // Simple delay to avoid rate limiting
-        await new Promise(r => setTimeout(r, 1000));
-    }
+    // Worker pool: each worker pulls the next index, so rows fill in as calls finish
+    // while the scheduler keeps all of them inside one requests-per-minute budget.
+    let cursor = 0;
+    const worker = async () => {
+        while (cursor < items.length && !pauseRequestedRef.current) {
+            const index = cursor++;
+            await processItem(index);
+        }
+    };
+
+    const workerCount = Math.max(1, Math.min(batchConfig.concurrency, items.length));
+    await Promise.all(Array.from({ length: workerCount }, worker));
+
+    abortControllerRef.current = null;
+    setBatchState(prev => ({ ...prev, isProcessing: false, inFlight: 0 }));
+  };
 
-    setBatchState(prev => ({ ...prev, isProcessing: false }));
+  // Pause: let in-flight calls finish, start nothing new
+  const pauseBatch = () => {
+    pauseRequestedRef.current = true;
+    setBatchState(prev => ({ ...prev, isPaused: true }));
+  };
+
+  // Cancel: stop scheduling and abort in-flight calls; their rows become CANCELLED until the next Start
+  const cancelBatch = () => {
+    pauseRequestedRef.current = true;
+    abortControllerRef.current?.abort();
+    setBatchState(prev => ({ ...prev, isPaused: true }));
   };
 
   return (
     <div className="min-h-screen bg-slate-950 text-slate-200 font-sans selection:bg-indigo-500/30">
       <Header 
         onSpecsLoaded={handleSpecsLoaded} 
+        config={specConfig}
         onConfigChange={handleConfigChange}
+        sheetNames={specSheetNames}
+        onOpenMapping={currentSpecFile ? () => setShowMapping(true) : undefined}
+        onOpenFilenameRules={() => setShowFilenameRules(true)}
+        providerSettings={providerSettings}
+        onProviderChange={setProviderSettings}
+        batchConfig={batchConfig}
+        onBatchConfigChange={handleBatchConfigChange}
         specsCount={specs.length} 
       />
 
@@ -203,13 +623,30 @@ const App: React.FC = () => {
         <div className="flex items-center justify-between mb-8">
             <div className="flex items-center gap-2 text-slate-500 text-sm font-medium">
                 <Activity className="w-4 h-4 text-indigo-500" />
-                <span>Ready for numeric ingestion. Supported formats: JPG, PNG.</span>
+                <span>Ready for numeric ingestion. Supported formats: JPG, PNG, WebP, TIFF, HEIC, PDF.</span>
                 {specs.length > 0 && (
                     <span className="text-emerald-500 ml-2 flex items-center gap-1">
                         • Reference Specs Active 
                         <span className="text-xs bg-emerald-500/10 px-1.5 py-0.5 rounded border border-emerald-500/20">
-                            {specConfig.startCol}-{specConfig.endCol}
+                            {specConfig.columnMapping
+                                ? `Mapped: ${specConfig.columnMapping.dimensionCols.join(', ') || 'none'}`
+                                : `${specConfig.startCol}-${specConfig.endCol}`}
                         </span>
+                        <button
+                            onClick={() => setShowSpecLint(true)}
+                            className={`text-xs px-1.5 py-0.5 rounded border flex items-center gap-1 transition-colors ${
+                                specIssues.some(i => i.severity === 'error')
+                                    ? 'bg-red-500/10 border-red-500/20 text-red-400 hover:bg-red-500/20'
+                                    : specIssues.length > 0
+                                        ? 'bg-amber-500/10 border-amber-500/20 text-amber-400 hover:bg-amber-500/20'
+                                        : 'bg-emerald-500/10 border-emerald-500/20 text-emerald-500 hover:bg-emerald-500/20'
+                            }`}
+                            title="Review spec sheet problems before validating"
+                        >
+                            {specIssues.length > 0
+                                ? <><AlertTriangle className="w-3 h-3" /> {specIssues.length} spec issues</>
+                                : <><ClipboardCheck className="w-3 h-3" /> Lint clean</>}
+                        </button>
                     </span>
                 )}
             </div>
@@ -229,16 +666,28 @@ const App: React.FC = () => {
                 <BatchProcessor 
                     batchState={batchState}
                     onStart={processBatch}
-                    onCancel={() => {}} 
+                    onPause={pauseBatch}
+                    onResume={processBatch}
+                    onCancel={cancelBatch}
+                    onReattach={handleReattach}
+                    specs={specs}
+                    onAssignSpecs={handleAssignSpecs}
+                    onAcceptQuality={handleAcceptQuality}
                 />
             </div>
         ) : (
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 h-[calc(100vh-200px)] min-h-[600px]">
                 {/* Left Column: Input Source */}
-                <div className="flex flex-col h-full">
-                    <FileUpload 
-                        onDataSelected={handleAnalysis} 
-                        onBatchSelected={handleBatchSelection}
+                <div className="flex flex-col h-full gap-4">
+                    <div className="flex-1 min-h-0">
+                        <FileUpload 
+                            onDataSelected={handleAnalysis} 
+                            onBatchSelected={handleBatchSelection}
+                        />
+                    </div>
+                    <RecentSessions 
+                        onOpen={handleOpenSession}
+                        onExport={handleExportSession}
                     />
                 </div>
 
@@ -254,6 +703,36 @@ const App: React.FC = () => {
             </div>
         )}
       </main>
+
+      {showMapping && currentSpecFile && (
+        <SpecMappingView 
+            file={currentSpecFile}
+            config={specConfig}
+            onApply={handleMappingApply}
+            onClose={() => setShowMapping(false)}
+        />
+      )}
+
+      {showFilenameRules && (
+        <FilenameRulesView 
+            rules={specConfig.filenameRules}
+            fileNames={batchState.items.map(item => item.file.name)}
+            specs={specs}
+            matching={specConfig.matching}
+            isProcessing={batchState.isProcessing}
+            onApply={handleFilenameRulesApply}
+            onClose={() => setShowFilenameRules(false)}
+        />
+      )}
+
+      {showSpecLint && (
+        <SpecLintReport 
+            issues={specIssues}
+            specsCount={specs.length}
+            specFileName={currentSpecFile?.name}
+            onClose={() => setShowSpecLint(false)}
+        />
+      )}
     </div>
   );
 };
@@ -1,15 +1,52 @@
-import React, { useState } from 'react';
-import { BatchState, BatchItem } from '../types';
-import { Loader2, CheckCircle2, AlertTriangle, XCircle, Download, Play, FolderOpen, Ban } from 'lucide-react';
-import { utils, write } from 'xlsx';
+import React, { useMemo, useRef, useState } from 'react';
+import { BatchState, BatchItem, SpecRow } from '../types';
+import {
+  Loader2, CheckCircle2, AlertTriangle, XCircle, Download, Play, FolderOpen, Ban, RotateCw, Pause, CircleStop, CircleSlash,
+  ImageOff, DatabaseZap, Link2, Send, Copy, CornerDownRight, Grid2x2
+} from 'lucide-react';
+import { downloadBatchReport } from '../utils/batchReport';
+import { formatImageInfo, hasImageRules } from '../utils/imageChecks';
+import { formatQualityMetrics } from '../utils/imageQuality';
+import { listDuplicateGroups } from '../utils/imageHash';
+import { formatPage, formatItemName } from '../utils/documentPages';
+import SpecPicker from './SpecPicker';
 
 interface BatchProcessorProps {
   batchState: BatchState;
   onStart: () => void;
+  onPause: () => void;
+  onResume: () => void;
   onCancel: () => void;
+  onReattach: (files: File[]) => void;
+  specs: SpecRow[];
+  onAssignSpecs: (itemId: string, specs: SpecRow[]) => void;
+  onAcceptQuality: (itemId: string) => void;
 }
 
-const BatchProcessor: React.FC<BatchProcessorProps> = ({ batchState, onStart, onCancel }) => {
+const BatchProcessor: React.FC<BatchProcessorProps> = ({
+  batchState, onStart, onPause, onResume, onCancel, onReattach, specs, onAssignSpecs, onAcceptQuality
+}) => {
+  const reattachInputRef = useRef<HTMLInputElement>(null);
+  const [pickerItemId, setPickerItemId] = useState<string | null>(null);
+  const pickerItem = batchState.items.find(i => i.id === pickerItemId);
+  const hasQueued = batchState.items.some(i => i.status === 'PENDING' || i.status === 'ERROR' || i.status === 'CANCELLED');
+  const missingCount = batchState.items.filter(i => i.fileMissing).length;
+
+  // Near-duplicates are listed right under the first image of their group
+  const duplicateGroups = useMemo(() => listDuplicateGroups(batchState.items), [batchState.items]);
+  const rows = useMemo(
+    () => batchState.items.flatMap(item =>
+      item.duplicateOf && duplicateGroups.has(item.duplicateOf) ? [] : duplicateGroups.get(item.id) || [item]
+    ),
+    [batchState.items, duplicateGroups]
+  );
+
+  const onReattachChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      onReattach(Array.from(e.target.files));
+    }
+    e.target.value = '';
+  };
   
   const getStatusIcon = (status: BatchItem['status']) => {
     switch(status) {
@@ -17,78 +54,99 @@ const BatchProcessor: React.FC<BatchProcessorProps> = ({ batchState, onStart, on
         case 'PROCESSING': return <Loader2 className="w-4 h-4 text-indigo-500 animate-spin" />;
         case 'ERROR': return <XCircle className="w-4 h-4 text-red-500" />;
         case 'SKIPPED': return <Ban className="w-4 h-4 text-slate-600" />;
+        case 'CANCELLED': return <CircleSlash className="w-4 h-4 text-slate-500" />;
         default: return <div className="w-4 h-4 rounded-full border border-slate-600" />;
     }
   };
 
-  const downloadReport = () => {
-    // Flatten data for CSV
-    // One image might have multiple validation rows
-    const rows: any[] = [];
-    
-    batchState.items.forEach(item => {
-        // If skipped, we only export the filename and status
-        if (item.status === 'SKIPPED') {
-            rows.push({
-                'File Name': item.file.name,
-                'Processing Status': 'SKIPPED',
-                'Reason': 'No matching product spec found in Excel',
-                'Detected Dimensions': 'N/A',
-                'Matched Product': 'N/A',
-                'Validation Status': 'N/A'
-            });
-            return;
-        }
-
-        const detectedDims = item.aiResponse?.dimensions.join(' x ') || 'N/A';
-        const aiSummary = item.aiResponse?.raw_text || '';
-        
-        if (item.validations && item.validations.length > 0) {
-            item.validations.forEach(val => {
-                rows.push({
-                    'File Name': item.file.name,
-                    'Processing Status': item.status,
-                    'Reason': '',
-                    'Detected Dimensions': detectedDims,
-                    'Matched Product': val.matchedRow?.productName || 'N/A',
-                    'Expected Dimensions': val.matchedRow?.expectedDimensions.join(' x ') || 'N/A',
-                    'Validation Status': val.status,
-                    'Missing': val.missing.join(', '),
-                    'Extra': val.extra.join(', '),
-                    'AI Observation': aiSummary
-                });
-            });
-        } else {
-            // Error case or processing failed
-            rows.push({
-                'File Name': item.file.name,
-                'Processing Status': item.status,
-                'Reason': item.error || 'Unknown Error',
-                'Detected Dimensions': detectedDims,
-                'Matched Product': 'NO MATCH',
-                'Expected Dimensions': '',
-                'Validation Status': 'ERROR',
-                'Missing': '',
-                'Extra': '',
-                'AI Observation': item.error || aiSummary
-            });
-        }
-    });
-
-    const worksheet = utils.json_to_sheet(rows);
-    const workbook = utils.book_new();
-    utils.book_append_sheet(workbook, worksheet, "Batch Report");
-    
-    const excelBuffer = write(workbook, { bookType: 'xlsx', type: 'array' });
-    const blob = new Blob([excelBuffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
-    
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `Batch_Report_${new Date().toISOString().slice(0,19).replace(/:/g,'-')}.xlsx`;
-    link.click();
+  const downloadReport = () => downloadBatchReport(batchState.items);
+
+  // The running worker loop owns the item list, so assignments wait until it stops
+  const renderAssignButton = (item: BatchItem) => specs.length > 0 && !batchState.isProcessing && (
+    <button
+        onClick={() => setPickerItemId(item.id)}
+        className="inline-flex items-center gap-1 text-[10px] text-slate-500 hover:text-indigo-300 transition-colors"
+        title="Assign, add or remove spec rows by hand"
+    >
+        <Link2 className="w-3 h-3" /> {item.matchedSpecs.length > 0 ? 'Edit' : 'Assign'}
+    </button>
+  );
+
+  const renderFileName = (item: BatchItem) => {
+    const group = duplicateGroups.get(item.id);
+    const first = item.duplicateOf ? duplicateGroups.get(item.duplicateOf)?.[0] : undefined;
+    return (
+        <>
+            {first && (
+                <span title={`Near-duplicate of ${formatItemName(first)}`}>
+                    <CornerDownRight className="w-3 h-3 inline mr-1 text-slate-500" />
+                </span>
+            )}
+            {item.file.name}
+            {item.page && (
+                <span
+                    className="ml-2 text-[10px] text-slate-400 bg-slate-800 px-1.5 py-0.5 rounded font-normal no-underline"
+                    title={`Page ${item.page} of ${item.pageCount}, rendered from the ${item.sourceType || 'source'} file`}
+                >
+                    {formatPage(item)}
+                </span>
+            )}
+            {group && (
+                <span
+                    className="ml-2 inline-flex items-center gap-0.5 text-[10px] text-indigo-300 bg-indigo-500/10 px-1.5 py-0.5 rounded font-normal no-underline"
+                    title={`Near-duplicates: ${group.slice(1).map(formatItemName).join(', ')}`}
+                >
+                    <Copy className="w-2.5 h-2.5" /> {group.length - 1}
+                </span>
+            )}
+        </>
+    );
+  };
+
+  // Size and format always; a PASS / FAIL badge once any image rule applies
+  const renderImageCheck = (item: BatchItem) => {
+    const check = item.imageCheck;
+    if (!check) return <span className="text-slate-700">-</span>;
+    if (check.status === 'UNREADABLE') {
+        return <span className="text-xs text-red-400" title={check.failures.join('\n')}>Unreadable</span>;
+    }
+    return (
+        <div className="flex flex-col items-start gap-1">
+            <span className="text-xs font-mono text-slate-400 whitespace-nowrap" title={item.imageInfo ? formatImageInfo(item.imageInfo) : undefined}>
+                {item.imageInfo && `${item.imageInfo.width}×${item.imageInfo.height} ${item.imageInfo.format.toUpperCase()}`}
+            </span>
+            {check.status === 'FAIL' ? (
+                <span className="text-[10px] font-semibold text-red-400" title={check.failures.join('\n')}>
+                    FAIL ({check.failures.length})
+                </span>
+            ) : hasImageRules(check.rules) && (
+                <span className="text-[10px] font-semibold text-emerald-400">PASS</span>
+            )}
+            {renderQuality(item)}
+        </div>
+    );
   };
 
+  const renderQuality = (item: BatchItem) => item.quality && item.quality.failures.length > 0 && (
+    <span
+        className="text-[10px] font-semibold text-amber-400"
+        title={`${item.quality.failures.join('\n')}\n(${formatQualityMetrics(item.quality.metrics)})`}
+    >
+        Low quality{item.quality.accepted ? ' (sent anyway)' : ''}
+    </span>
+  );
+
+  // Preflight skips can be overridden; the image goes back to the queue
+  const renderAcceptButton = (item: BatchItem) => item.quality && !batchState.isProcessing && (
+    <button
+        onClick={() => onAcceptQuality(item.id)}
+        className="inline-flex items-center gap-1 text-[10px] text-slate-500 hover:text-indigo-300 transition-colors"
+        title="Queue this image for the AI despite the quality check"
+    >
+        <Send className="w-3 h-3" /> Send anyway
+    </button>
+  );
+
   return (
     <div className="h-full flex flex-col bg-slate-900 rounded-2xl border border-slate-800 overflow-hidden shadow-2xl">
       {/* Header */}
@@ -100,31 +158,81 @@ const BatchProcessor: React.FC<BatchProcessorProps> = ({ batchState, onStart, on
             </h3>
             <p className="text-sm text-slate-500 mt-1">
                 {batchState.total} images queued • {batchState.progress} processed
+                {batchState.inFlight > 0 && <> • {batchState.inFlight} in flight</>}
             </p>
         </div>
         
         <div className="flex gap-3">
              {batchState.isProcessing ? (
-                 <div className="flex items-center gap-2 px-4 py-2 bg-indigo-500/10 border border-indigo-500/20 text-indigo-400 rounded-lg">
-                    <Loader2 className="w-4 h-4 animate-spin" />
-                    <span className="text-sm font-medium">Processing...</span>
-                 </div>
-             ) : (
-                batchState.progress === batchState.total && batchState.total > 0 ? (
+                 <>
+                    <div className="flex items-center gap-2 px-4 py-2 bg-indigo-500/10 border border-indigo-500/20 text-indigo-400 rounded-lg">
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        <span className="text-sm font-medium">{batchState.isPaused ? 'Pausing...' : 'Processing...'}</span>
+                    </div>
+                    {!batchState.isPaused && (
+                        <button 
+                            onClick={onPause}
+                            className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-200 rounded-lg text-sm font-medium transition-colors"
+                            title="Finish in-flight items, then stop"
+                        >
+                            <Pause className="w-4 h-4" /> Pause
+                        </button>
+                    )}
                     <button 
-                        onClick={downloadReport}
-                        className="flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg text-sm font-medium transition-colors"
+                        onClick={onCancel}
+                        className="flex items-center gap-2 px-4 py-2 bg-red-600/10 hover:bg-red-600/20 border border-red-500/30 text-red-400 rounded-lg text-sm font-medium transition-colors"
+                        title="Abort in-flight requests"
                     >
-                        <Download className="w-4 h-4" /> Export Report
+                        <CircleStop className="w-4 h-4" /> Cancel
                     </button>
-                ) : (
-                    <button 
-                        onClick={onStart}
-                        className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-sm font-medium transition-colors"
-                    >
-                        <Play className="w-4 h-4" /> Start Processing
-                    </button>
-                )
+                 </>
+             ) : (
+                <>
+                    {missingCount > 0 && (
+                        <>
+                            <input
+                                ref={reattachInputRef}
+                                type="file"
+                                webkitdirectory=""
+                                directory=""
+                                className="hidden"
+                                onChange={onReattachChange}
+                            />
+                            <button 
+                                onClick={() => reattachInputRef.current?.click()}
+                                className="flex items-center gap-2 px-4 py-2 bg-amber-500/10 hover:bg-amber-500/20 border border-amber-500/30 text-amber-400 rounded-lg text-sm font-medium transition-colors"
+                                title="Restored sessions keep results but not images. Select the original folder to continue."
+                            >
+                                <ImageOff className="w-4 h-4" /> Re-attach {missingCount} Images
+                            </button>
+                        </>
+                    )}
+                    {batchState.progress > 0 && (
+                        <button 
+                            onClick={downloadReport}
+                            className="flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg text-sm font-medium transition-colors"
+                        >
+                            <Download className="w-4 h-4" /> Export Report
+                        </button>
+                    )}
+                    {hasQueued && (
+                        batchState.isPaused ? (
+                            <button 
+                                onClick={onResume}
+                                className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-sm font-medium transition-colors"
+                            >
+                                <Play className="w-4 h-4" /> Resume
+                            </button>
+                        ) : (
+                            <button 
+                                onClick={onStart}
+                                className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-sm font-medium transition-colors"
+                            >
+                                <Play className="w-4 h-4" /> Start Processing
+                            </button>
+                        )
+                    )}
+                </>
              )}
         </div>
       </div>
@@ -144,13 +252,14 @@ const BatchProcessor: React.FC<BatchProcessorProps> = ({ batchState, onStart, on
                 <tr>
                     <th className="p-4 font-semibold border-b border-slate-800 w-16">Status</th>
                     <th className="p-4 font-semibold border-b border-slate-800">File Name</th>
+                    <th className="p-4 font-semibold border-b border-slate-800">Image</th>
                     <th className="p-4 font-semibold border-b border-slate-800">Matched Specs</th>
                     <th className="p-4 font-semibold border-b border-slate-800">Extracted</th>
                     <th className="p-4 font-semibold border-b border-slate-800">Validation</th>
                 </tr>
             </thead>
             <tbody className="text-sm divide-y divide-slate-800">
-                {batchState.items.map((item) => {
+                {rows.map((item) => {
                     const matchedCount = item.matchedSpecs.length;
                     
                     if (item.status === 'SKIPPED') {
@@ -160,16 +269,29 @@ const BatchProcessor: React.FC<BatchProcessorProps> = ({ batchState, onStart, on
                                     {getStatusIcon(item.status)}
                                 </td>
                                 <td className="p-4 text-slate-500 font-medium truncate max-w-[200px] line-through decoration-slate-600" title={item.file.name}>
-                                    {item.file.name}
+                                    {renderFileName(item)}
+                                </td>
+                                <td className="p-4">
+                                    {renderImageCheck(item)}
                                 </td>
                                 <td className="p-4 text-slate-600 italic">
-                                    No Match
+                                    <div className="flex flex-col items-start gap-1">
+                                        {matchedCount > 0 ? `${matchedCount} Match${matchedCount > 1 ? 'es' : ''}` : 'No Match'}
+                                        {renderAssignButton(item)}
+                                    </div>
                                 </td>
                                 <td className="p-4 text-slate-700 font-mono">
                                     -
                                 </td>
                                 <td className="p-4 text-slate-700">
-                                    Skipped to save tokens
+                                    {item.quality?.failures.length ? (
+                                        <div className="flex flex-col items-start gap-1">
+                                            <span className="text-xs line-clamp-2 max-w-[280px]" title={item.error}>{item.error}</span>
+                                            {renderAcceptButton(item)}
+                                        </div>
+                                    ) : (
+                                        'Skipped to save tokens'
+                                    )}
                                 </td>
                             </tr>
                         );
@@ -184,22 +306,78 @@ const BatchProcessor: React.FC<BatchProcessorProps> = ({ batchState, onStart, on
                     return (
                         <tr key={item.id} className="hover:bg-slate-800/30 transition-colors">
                             <td className="p-4 text-center">
-                                {getStatusIcon(item.status)}
+                                <div className="flex flex-col items-center gap-1">
+                                    {getStatusIcon(item.status)}
+                                    {!!item.retries && (
+                                        <span
+                                            className="inline-flex items-center gap-0.5 text-[10px] font-mono text-amber-400"
+                                            title={item.status === 'PENDING' && item.error ? item.error : `${item.retries} retries`}
+                                        >
+                                            <RotateCw className="w-2.5 h-2.5" />{item.retries}
+                                        </span>
+                                    )}
+                                </div>
                             </td>
                             <td className="p-4 text-slate-200 font-medium truncate max-w-[200px]" title={item.file.name}>
-                                {item.file.name}
+                                {renderFileName(item)}
+                                {item.fileMissing && item.status !== 'COMPLETED' && (
+                                    <span className="ml-2 inline-flex items-center gap-1 text-[10px] text-amber-400 font-normal" title="Image not attached">
+                                        <ImageOff className="w-3 h-3" />
+                                    </span>
+                                )}
+                            </td>
+                            <td className="p-4">
+                                {renderImageCheck(item)}
                             </td>
                             <td className="p-4 text-slate-400">
                                 {matchedCount > 0 ? (
-                                    <span className="inline-flex items-center gap-1 bg-slate-800 px-2 py-1 rounded text-xs">
-                                        {matchedCount} Match{matchedCount > 1 ? 'es' : ''}
-                                    </span>
+                                    <div className="flex flex-col items-start gap-1">
+                                        <span className="inline-flex items-center gap-1 bg-slate-800 px-2 py-1 rounded text-xs">
+                                            {matchedCount} Match{matchedCount > 1 ? 'es' : ''}
+                                        </span>
+                                        {item.matchReason && (
+                                            <span
+                                                className={`text-[10px] font-mono ${item.matchScore !== undefined && item.matchScore < 1 ? 'text-amber-400' : 'text-slate-500'}`}
+                                                title={`Matched to ${item.matchedSpecs[0].productName}`}
+                                            >
+                                                {item.matchReason}
+                                            </span>
+                                        )}
+                                        {renderAssignButton(item)}
+                                    </div>
                                 ) : (
-                                    <span className="text-slate-600 italic">None</span>
+                                    <div className="flex flex-col items-start gap-1">
+                                        <span className="text-slate-600 italic">None</span>
+                                        {renderAssignButton(item)}
+                                    </div>
                                 )}
                             </td>
                             <td className="p-4 text-indigo-300 font-mono">
                                 {item.aiResponse?.dimensions.join(' x ') || '-'}
+                                {item.cached && (
+                                    <span
+                                        className="ml-2 inline-flex items-center gap-0.5 text-[10px] font-sans text-slate-400 bg-slate-800 px-1.5 py-0.5 rounded"
+                                        title="Result reused from the local cache (no AI call)"
+                                    >
+                                        <DatabaseZap className="w-2.5 h-2.5" /> cached
+                                    </span>
+                                )}
+                                {item.reusedFrom && (
+                                    <span
+                                        className="ml-2 inline-flex items-center gap-0.5 text-[10px] font-sans text-slate-400 bg-slate-800 px-1.5 py-0.5 rounded"
+                                        title={`Extraction copied from near-duplicate ${item.reusedFrom} (no AI call)`}
+                                    >
+                                        <Copy className="w-2.5 h-2.5" /> reused
+                                    </span>
+                                )}
+                                {item.tiles && (
+                                    <span
+                                        className="ml-2 inline-flex items-center gap-0.5 text-[10px] font-sans text-slate-400 bg-slate-800 px-1.5 py-0.5 rounded"
+                                        title={`Analysed as ${item.tiles} overlapping crops, merged into one result`}
+                                    >
+                                        <Grid2x2 className="w-2.5 h-2.5" /> {item.tiles} tiles
+                                    </span>
+                                )}
                             </td>
                             <td className={`p-4 font-semibold ${valStatusColor}`}>
                                 {item.validations?.length ? (
@@ -217,6 +395,10 @@ const BatchProcessor: React.FC<BatchProcessorProps> = ({ batchState, onStart, on
                                             </div>
                                         ))}
                                     </div>
+                                ) : item.status === 'ERROR' && item.error ? (
+                                    <span className="text-xs font-normal text-red-400 line-clamp-2 max-w-[280px]" title={item.error}>
+                                        {item.error}
+                                    </span>
                                 ) : (
                                     '-'
                                 )}
@@ -227,6 +409,20 @@ const BatchProcessor: React.FC<BatchProcessorProps> = ({ batchState, onStart, on
             </tbody>
         </table>
       </div>
+
+      {pickerItem && (
+        <SpecPicker
+            fileName={pickerItem.file.name}
+            specs={specs}
+            selected={pickerItem.matchedSpecs}
+            hasResponse={!!pickerItem.aiResponse}
+            onApply={(assigned) => {
+                onAssignSpecs(pickerItem.id, assigned);
+                setPickerItemId(null);
+            }}
+            onClose={() => setPickerItemId(null)}
+        />
+      )}
     </div>
   );
 };
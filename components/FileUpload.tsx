@@ -1,6 +1,7 @@
 import React, { useState, useRef } from 'react';
-import { UploadCloud, Image as ImageIcon, X, ScanLine, FileDigit, FolderOpen } from 'lucide-react';
+import { UploadCloud, Image as ImageIcon, X, ScanLine, FileDigit, FolderOpen, Loader2 } from 'lucide-react';
 import { AnalysisInput } from '../types';
+import { SUPPORTED_FILE_ACCEPT, expandSourceFile, isSupportedFile, loadPageImage, sourceKind } from '../utils/documentPages';
 
 // Add type definition for directory support
 declare global {
@@ -14,7 +15,7 @@ declare global {
 
 interface FileUploadProps {
   onDataSelected: (data: AnalysisInput) => void;
-  onBatchSelected: (files: File[]) => void;
+  onBatchSelected: (files: File[]) => void | Promise<void>;
 }
 
 interface PreviewState {
@@ -25,31 +26,54 @@ interface PreviewState {
 const FileUpload: React.FC<FileUploadProps> = ({ onDataSelected, onBatchSelected }) => {
   const [preview, setPreview] = useState<PreviewState | null>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const [isPreparing, setIsPreparing] = useState(false);
   const folderInputRef = useRef<HTMLInputElement>(null);
 
+  const showImage = (file: File) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const result = reader.result as string;
+      const matches = result.match(/^data:(.+);base64,(.+)$/);
+      if (matches) {
+        setPreview({
+          content: result,
+          fileName: file.name
+        });
+        onDataSelected({
+          type: 'image',
+          content: matches[2],
+          mimeType: matches[1],
+          fileName: file.name
+        });
+      }
+    };
+    reader.readAsDataURL(file);
+  };
+
+  // Waits for PDF / TIFF / HEIC decoding, which can take a while on large documents
+  const whilePreparing = async (task: () => Promise<void> | void) => {
+    setIsPreparing(true);
+    try {
+      await task();
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
   const processFile = async (file: File) => {
     try {
-      if (file.type.startsWith('image/')) {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-          const result = reader.result as string;
-          const matches = result.match(/^data:(.+);base64,(.+)$/);
-          if (matches) {
-            setPreview({
-              content: result,
-              fileName: file.name
-            });
-            onDataSelected({
-              type: 'image',
-              content: matches[2],
-              mimeType: matches[1],
-              fileName: file.name
-            });
-          }
-        };
-        reader.readAsDataURL(file);
+      const kind = sourceKind(file);
+      if (kind === 'image') {
+        showImage(file);
+      } else if (kind === 'pdf' || kind === 'tiff' || kind === 'heic') {
+        // Multi-page documents are analysed one row per page; a single page stays in single mode
+        await whilePreparing(async () => {
+          const pages = await expandSourceFile(file);
+          if (pages.length > 1) return onBatchSelected([file]);
+          showImage(await loadPageImage(pages[0]));
+        });
       } else {
-        alert('Format not supported. Please upload an Image (JPG/PNG).');
+        alert('Format not supported. Please upload an image (JPG/PNG/WebP/TIFF/HEIC) or a PDF.');
       }
     } catch (err) {
       console.error("File processing error", err);
@@ -65,11 +89,11 @@ const FileUpload: React.FC<FileUploadProps> = ({ onDataSelected, onBatchSelected
 
   const onFolderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-        const imageFiles = Array.from(e.target.files).filter((f: File) => f.type.startsWith('image/'));
+        const imageFiles = Array.from(e.target.files).filter(isSupportedFile);
         if (imageFiles.length > 0) {
-            onBatchSelected(imageFiles);
+            whilePreparing(() => onBatchSelected(imageFiles));
         } else {
-            alert("No images found in the selected folder.");
+            alert("No images or PDFs found in the selected folder.");
         }
     }
   };
@@ -123,7 +147,13 @@ const FileUpload: React.FC<FileUploadProps> = ({ onDataSelected, onBatchSelected
             
             <h3 className="text-xl font-semibold text-slate-200 mb-2">Upload Analysis Target</h3>
             <p className="text-slate-500 text-sm text-center max-w-xs mb-8 leading-relaxed">
-              Analyze a single image or batch process a folder.
+              {isPreparing ? (
+                <span className="inline-flex items-center gap-2 text-indigo-300">
+                  <Loader2 className="w-4 h-4 animate-spin" /> Rendering pages…
+                </span>
+              ) : (
+                'Analyze a single image or batch process a folder. PDFs and multi-page TIFFs are split into pages.'
+              )}
             </p>
             
             <div className="flex gap-4">
@@ -135,7 +165,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onDataSelected, onBatchSelected
                 </div>
                 <input
                     type="file"
-                    accept="image/*"
+                    accept={SUPPORTED_FILE_ACCEPT}
                     className="hidden"
                     onChange={onChange}
                 />
@@ -186,7 +216,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onDataSelected, onBatchSelected
                 <span>Change Image</span>
                 <input
                   type="file"
-                  accept="image/*"
+                  accept={SUPPORTED_FILE_ACCEPT}
                   className="hidden"
                   onChange={onChange}
                 />
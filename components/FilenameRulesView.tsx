@@ -0,0 +1,200 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { X, FileSearch, FolderOpen, Save, RotateCcw } from 'lucide-react';
+import { FilenameRules, MatchConfig, SpecRow } from '../types';
+import { checkFilenamePatterns, parseFilename, EMPTY_FILENAME_RULES } from '../utils/filenameRules';
+import { matchSpecs } from '../utils/specMatching';
+import { isSupportedFile } from '../utils/documentPages';
+
+interface FilenameRulesViewProps {
+  rules?: FilenameRules;
+  fileNames: string[]; // File names from the loaded batch folder
+  specs: SpecRow[];
+  matching?: MatchConfig;
+  isProcessing?: boolean; // A running batch keeps the matches it started with
+  onApply: (rules: FilenameRules | undefined) => void;
+  onClose: () => void;
+}
+
+const MAX_PREVIEW_ROWS = 200;
+
+const toLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+const FilenameRulesView: React.FC<FilenameRulesViewProps> = ({ rules = EMPTY_FILENAME_RULES, fileNames, specs, matching, isProcessing = false, onApply, onClose }) => {
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [patterns, setPatterns] = useState(rules.patterns.join('\n'));
+  const [prefixes, setPrefixes] = useState(rules.stripPrefixes.join('\n'));
+  const [suffixes, setSuffixes] = useState(rules.stripSuffixes.join('\n'));
+  const [folderNames, setFolderNames] = useState<string[]>([]);
+
+  // Lines are trimmed, so leading/trailing spaces can't be part of a strip entry
+  const draft: FilenameRules = useMemo(() => ({
+    patterns: toLines(patterns),
+    stripPrefixes: toLines(prefixes),
+    stripSuffixes: toLines(suffixes),
+  }), [patterns, prefixes, suffixes]);
+
+  const patternErrors = useMemo(() => checkFilenamePatterns(draft.patterns), [draft]);
+  const hasErrors = Object.keys(patternErrors).length > 0;
+
+  // Preview the batch folder, or a folder picked here when no batch is loaded
+  const names = fileNames.length > 0 ? fileNames : folderNames;
+  const preview = useMemo(
+    () => names.slice(0, MAX_PREVIEW_ROWS).map(name => ({
+      name,
+      key: parseFilename(name, draft),
+      before: matchSpecs(name, specs, matching),
+      after: matchSpecs(name, specs, matching, draft),
+    })),
+    [names, specs, matching, draft]
+  );
+  const matchedBefore = preview.filter(row => row.before).length;
+  const matchedAfter = preview.filter(row => row.after).length;
+
+  const onFolderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      setFolderNames(Array.from(e.target.files).filter(isSupportedFile).map(f => f.name));
+    }
+    e.target.value = '';
+  };
+
+  const textareaClass = 'w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-xs font-mono focus:border-indigo-500 outline-none resize-y';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-6">
+      <div className="w-full max-w-6xl max-h-full flex flex-col bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden">
+        {/* Header */}
+        <div className="p-5 border-b border-slate-800 flex justify-between items-center">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-100 flex items-center gap-2">
+              <FileSearch className="w-5 h-5 text-indigo-400" />
+              Filename Rules
+            </h3>
+            <p className="text-sm text-slate-500 mt-1">
+              Pull the product, SKU, size and view out of file names before matching them to spec rows.
+            </p>
+          </div>
+          <button onClick={onClose}><X className="w-5 h-5 text-slate-500 hover:text-white" /></button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-5 space-y-6">
+          {/* Rule editor */}
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            <div className="lg:col-span-3">
+              <label className="block text-xs font-medium text-slate-400 mb-1">Patterns (one regex per line, first match wins)</label>
+              <textarea
+                rows={3}
+                value={patterns}
+                onChange={(e) => setPatterns(e.target.value)}
+                className={textareaClass}
+                placeholder={'^\\d{4}_[A-Z]{2}_(?<product>.+?)_v\\d+_(?<view>\\w+)$'}
+              />
+              {Object.entries(patternErrors).map(([index, message]) => (
+                <p key={index} className="text-[11px] text-red-400 mt-1">Line {Number(index) + 1}: {message}</p>
+              ))}
+              <p className="text-[10px] text-slate-500 mt-1 leading-tight">
+                Named groups: (?&lt;product&gt;…), (?&lt;sku&gt;…), (?&lt;size&gt;…), (?&lt;view&gt;…). Matching ignores case.
+              </p>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-400 mb-1">Strip Prefixes (one per line)</label>
+              <textarea rows={3} value={prefixes} onChange={(e) => setPrefixes(e.target.value)} className={textareaClass} placeholder="2024_SS_" />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-400 mb-1">Strip Suffixes (one per line)</label>
+              <textarea rows={3} value={suffixes} onChange={(e) => setSuffixes(e.target.value)} className={textareaClass} placeholder={'_front\n_v3'} />
+            </div>
+            <p className="text-[10px] text-slate-500 leading-tight self-end">
+              Prefixes and suffixes are removed from the name (without extension) before the patterns run.
+              Without a product group the stripped name is matched as a whole.
+            </p>
+          </div>
+
+          {/* Preview */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">
+                Preview {names.length > 0 && specs.length > 0 && <span className="normal-case tracking-normal font-normal text-slate-500">• {matchedAfter} of {preview.length} matched (was {matchedBefore})</span>}
+              </h4>
+              {fileNames.length === 0 && (
+                <>
+                  <input ref={folderInputRef} type="file" webkitdirectory="" directory="" className="hidden" onChange={onFolderChange} />
+                  <button
+                    onClick={() => folderInputRef.current?.click()}
+                    className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-indigo-300 transition-colors"
+                  >
+                    <FolderOpen className="w-3.5 h-3.5" /> Pick a folder to preview
+                  </button>
+                </>
+              )}
+            </div>
+            <div className="overflow-x-auto border border-slate-800 rounded-lg">
+              <table className="w-full text-left border-collapse text-xs">
+                <thead className="bg-slate-950 text-slate-400 uppercase">
+                  <tr>
+                    <th className="p-2 border-b border-slate-800">File</th>
+                    <th className="p-2 border-b border-slate-800">Product</th>
+                    <th className="p-2 border-b border-slate-800">SKU</th>
+                    <th className="p-2 border-b border-slate-800">Size</th>
+                    <th className="p-2 border-b border-slate-800">View</th>
+                    <th className="p-2 border-b border-slate-800">Matched Spec</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-800">
+                  {preview.map(({ name, key, after }) => (
+                    <tr key={name}>
+                      <td className="p-2 text-slate-300 truncate max-w-[240px]" title={name}>{name}</td>
+                      <td className="p-2 text-indigo-300 font-mono truncate max-w-[180px]">{key.product || <span className="text-slate-600">—</span>}</td>
+                      <td className="p-2 text-amber-300/80 font-mono">{key.sku || <span className="text-slate-600">—</span>}</td>
+                      <td className="p-2 text-purple-300 font-mono">{key.size || <span className="text-slate-600">—</span>}</td>
+                      <td className="p-2 text-slate-400 font-mono">{key.view || <span className="text-slate-600">—</span>}</td>
+                      <td className="p-2 truncate max-w-[240px]">
+                        {after ? (
+                          <span className="text-emerald-400" title={after.specs.map(s => s.productName).join(', ')}>
+                            {after.specs[0].productName} <span className="text-slate-500 font-mono">({after.reason})</span>
+                          </span>
+                        ) : (
+                          <span className="text-slate-600 italic">{specs.length > 0 ? 'No match' : 'Load specs to match'}</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                  {names.length === 0 && (
+                    <tr><td colSpan={6} className="p-3 text-slate-500 italic">No images loaded. Select a batch folder or pick one here.</td></tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+            {names.length > MAX_PREVIEW_ROWS && (
+              <p className="text-[11px] text-slate-500 mt-1">Showing the first {MAX_PREVIEW_ROWS} of {names.length} files.</p>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-800 flex justify-between items-center gap-4">
+          <button
+            onClick={() => onApply(undefined)}
+            className="flex items-center gap-2 px-4 py-2 text-sm text-slate-400 hover:text-slate-200 transition-colors"
+            title="Match whole file names again"
+          >
+            <RotateCcw className="w-4 h-4" /> Clear Rules
+          </button>
+          <p className="text-[11px] text-slate-500 text-right flex-1">
+            {isProcessing
+              ? 'A batch is running, so its images keep their current match; the rules apply to images loaded afterwards.'
+              : 'Applying re-matches queued and skipped images; processed and hand-assigned ones keep their specs.'}
+          </p>
+          <button
+            onClick={() => onApply(draft)}
+            disabled={hasErrors}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            <Save className="w-4 h-4" /> Apply Rules
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FilenameRulesView;
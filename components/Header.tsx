@@ -1,18 +1,159 @@
-import React, { useRef, useState } from 'react';
-import { Binary, ShieldCheck, FileSpreadsheet, Upload, Settings, X, Save } from 'lucide-react';
-import { ValidationConfig } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { Binary, ShieldCheck, FileSpreadsheet, Upload, Settings, X, Save, DatabaseZap, Columns3, FileSearch } from 'lucide-react';
+import {
+  ValidationConfig, DimensionUnit, NumberLocale, ToleranceMode, ProviderSettings, ProviderId, BatchConfig, ImageFormat, ColorSpace, ImageRules,
+  QualityAction, UploadConfig, UploadFormat
+} from '../types';
+import { parseColumnTolerances } from '../utils/validation';
+import { DEFAULT_MATCH_CONFIG } from '../utils/specMatching';
+import { IMAGE_FORMATS, COLOR_SPACES, parseAspectRatio, formatAspectRatio, hasImageRules } from '../utils/imageChecks';
+import { DEFAULT_QUALITY_CONFIG } from '../utils/imageQuality';
+import { DEFAULT_DUPLICATE_CONFIG } from '../utils/imageHash';
+import { DEFAULT_UPLOAD_CONFIG } from '../utils/imagePreprocess';
+import { PROVIDERS, DEFAULT_PROVIDER_SETTINGS } from '../services/providers';
+import { DEFAULT_BATCH_CONFIG } from '../services/requestScheduler';
+import { clearResultCache, countCachedResponses } from '../services/resultCache';
 
 interface HeaderProps {
   onSpecsLoaded?: (file: File) => void;
+  config?: ValidationConfig;
   onConfigChange?: (config: ValidationConfig) => void;
+  sheetNames?: string[];
+  onOpenMapping?: () => void;
+  onOpenFilenameRules?: () => void;
+  providerSettings?: ProviderSettings;
+  onProviderChange?: (settings: ProviderSettings) => void;
+  batchConfig?: BatchConfig;
+  onBatchConfigChange?: (config: BatchConfig) => void;
   specsCount?: number;
 }
 
-const Header: React.FC<HeaderProps> = ({ onSpecsLoaded, onConfigChange, specsCount = 0 }) => {
+const Header: React.FC<HeaderProps> = ({
+  onSpecsLoaded,
+  config,
+  onConfigChange,
+  sheetNames = [],
+  onOpenMapping,
+  onOpenFilenameRules,
+  providerSettings = DEFAULT_PROVIDER_SETTINGS,
+  onProviderChange,
+  batchConfig = DEFAULT_BATCH_CONFIG,
+  onBatchConfigChange,
+  specsCount = 0
+}) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [showSettings, setShowSettings] = useState(false);
   const [startCol, setStartCol] = useState('G');
   const [endCol, setEndCol] = useState('M');
+  const [selectedSheets, setSelectedSheets] = useState<string[]>([]);
+  const [headerRow, setHeaderRow] = useState('');
+  const [dataStartRow, setDataStartRow] = useState('');
+  const [specUnit, setSpecUnit] = useState<DimensionUnit | ''>('');
+  const [unitCol, setUnitCol] = useState('');
+  const [numberLocale, setNumberLocale] = useState<NumberLocale>('auto');
+  const [toleranceMode, setToleranceMode] = useState<ToleranceMode>('absolute');
+  const [toleranceValue, setToleranceValue] = useState('0.5');
+  const [columnTolerances, setColumnTolerances] = useState('');
+  const [toleranceCol, setToleranceCol] = useState('');
+  const [skuLookup, setSkuLookup] = useState(DEFAULT_MATCH_CONFIG.skuLookup);
+  const [tokenMatch, setTokenMatch] = useState(DEFAULT_MATCH_CONFIG.tokenMatch);
+  const [tokenThreshold, setTokenThreshold] = useState(String(DEFAULT_MATCH_CONFIG.tokenThreshold));
+  const [fuzzyMatch, setFuzzyMatch] = useState(DEFAULT_MATCH_CONFIG.fuzzyMatch);
+  const [fuzzyThreshold, setFuzzyThreshold] = useState(String(DEFAULT_MATCH_CONFIG.fuzzyThreshold));
+  const [minImageWidth, setMinImageWidth] = useState('');
+  const [minImageHeight, setMinImageHeight] = useState('');
+  const [aspectRatio, setAspectRatio] = useState('');
+  const [maxFileSizeKb, setMaxFileSizeKb] = useState('');
+  const [imageFormats, setImageFormats] = useState<ImageFormat[]>([]);
+  const [colorSpaces, setColorSpaces] = useState<ColorSpace[]>([]);
+  const [provider, setProvider] = useState<ProviderId>(providerSettings.provider);
+  const [model, setModel] = useState(providerSettings.model);
+  const [baseUrl, setBaseUrl] = useState(providerSettings.baseUrl || '');
+  const [apiKey, setApiKey] = useState(providerSettings.apiKey || '');
+  const [useCache, setUseCache] = useState(providerSettings.useCache !== false);
+  const [cacheCount, setCacheCount] = useState<number | null>(null);
+  const upload = providerSettings.upload || DEFAULT_UPLOAD_CONFIG;
+  const [maxEdge, setMaxEdge] = useState(String(upload.maxEdge));
+  const [uploadFormat, setUploadFormat] = useState<UploadFormat>(upload.format);
+  const [uploadQuality, setUploadQuality] = useState(String(upload.quality));
+  const [tiling, setTiling] = useState(upload.tiling);
+  const [tileAspect, setTileAspect] = useState(String(upload.tileAspect));
+  const [tileOverlap, setTileOverlap] = useState(String(upload.tileOverlap * 100));
+  const [requestsPerMinute, setRequestsPerMinute] = useState(String(batchConfig.requestsPerMinute));
+  const [maxRetries, setMaxRetries] = useState(String(batchConfig.maxRetries));
+  const [concurrency, setConcurrency] = useState(String(batchConfig.concurrency));
+  const quality = batchConfig.quality || DEFAULT_QUALITY_CONFIG;
+  const [qualityAction, setQualityAction] = useState<QualityAction>(quality.action);
+  const [minSharpness, setMinSharpness] = useState(String(quality.minSharpness));
+  const [minContrast, setMinContrast] = useState(String(quality.minContrast));
+  const [minTextArea, setMinTextArea] = useState(String(quality.minTextArea * 100));
+  const duplicates = batchConfig.duplicates || DEFAULT_DUPLICATE_CONFIG;
+  const [detectDuplicates, setDetectDuplicates] = useState(duplicates.enabled);
+  const [duplicateDistance, setDuplicateDistance] = useState(String(duplicates.maxDistance));
+  const [reuseDuplicates, setReuseDuplicates] = useState(duplicates.reuseResults);
+
+  // The fields are local drafts until Apply; they follow the props whenever those change
+  // (a restored session, a mapping or rules edit), so Apply never writes stale values back
+  useEffect(() => {
+    if (!config) return;
+    const matching = { ...DEFAULT_MATCH_CONFIG, ...config.matching };
+    const rules = config.imageRules || {};
+    setStartCol(config.startCol);
+    setEndCol(config.endCol);
+    setSelectedSheets(config.sheets || []);
+    setHeaderRow(config.headerRow ? String(config.headerRow) : '');
+    setDataStartRow(config.dataStartRow ? String(config.dataStartRow) : '');
+    setSpecUnit(config.specUnit || '');
+    setUnitCol(config.unitCol || '');
+    setNumberLocale(config.numberLocale || 'auto');
+    setToleranceMode(config.tolerance?.mode || 'absolute');
+    setToleranceValue(String(config.tolerance?.value ?? 0.5));
+    setColumnTolerances(Object.entries(config.columnTolerances || {})
+      .map(([col, rule]) => `${col}=${rule.value}${rule.mode === 'percent' ? '%' : ''}`)
+      .join(', '));
+    setToleranceCol(config.toleranceCol || '');
+    setSkuLookup(matching.skuLookup);
+    setTokenMatch(matching.tokenMatch);
+    setTokenThreshold(String(matching.tokenThreshold));
+    setFuzzyMatch(matching.fuzzyMatch);
+    setFuzzyThreshold(String(matching.fuzzyThreshold));
+    setMinImageWidth(rules.minWidth ? String(rules.minWidth) : '');
+    setMinImageHeight(rules.minHeight ? String(rules.minHeight) : '');
+    setAspectRatio(rules.aspectRatio ? formatAspectRatio(rules.aspectRatio) : '');
+    setMaxFileSizeKb(rules.maxFileSizeKb ? String(rules.maxFileSizeKb) : '');
+    setImageFormats(rules.formats || []);
+    setColorSpaces(rules.colorSpaces || []);
+  }, [config]);
+
+  useEffect(() => {
+    const upload = providerSettings.upload || DEFAULT_UPLOAD_CONFIG;
+    setProvider(providerSettings.provider);
+    setModel(providerSettings.model);
+    setBaseUrl(providerSettings.baseUrl || '');
+    setApiKey(providerSettings.apiKey || '');
+    setUseCache(providerSettings.useCache !== false);
+    setMaxEdge(String(upload.maxEdge));
+    setUploadFormat(upload.format);
+    setUploadQuality(String(upload.quality));
+    setTiling(upload.tiling);
+    setTileAspect(String(upload.tileAspect));
+    setTileOverlap(String(upload.tileOverlap * 100));
+  }, [providerSettings]);
+
+  useEffect(() => {
+    const quality = batchConfig.quality || DEFAULT_QUALITY_CONFIG;
+    const duplicates = batchConfig.duplicates || DEFAULT_DUPLICATE_CONFIG;
+    setRequestsPerMinute(String(batchConfig.requestsPerMinute));
+    setMaxRetries(String(batchConfig.maxRetries));
+    setConcurrency(String(batchConfig.concurrency));
+    setQualityAction(quality.action);
+    setMinSharpness(String(quality.minSharpness));
+    setMinContrast(String(quality.minContrast));
+    setMinTextArea(String(quality.minTextArea * 100));
+    setDetectDuplicates(duplicates.enabled);
+    setDuplicateDistance(String(duplicates.maxDistance));
+    setReuseDuplicates(duplicates.reuseResults);
+  }, [batchConfig]);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0] && onSpecsLoaded) {
@@ -20,9 +161,122 @@ const Header: React.FC<HeaderProps> = ({ onSpecsLoaded, onConfigChange, specsCou
     }
   };
 
+  useEffect(() => {
+    if (showSettings) {
+      countCachedResponses().then(setCacheCount).catch(() => setCacheCount(null));
+    }
+  }, [showSettings]);
+
+  const handleClearCache = async () => {
+    await clearResultCache();
+    setCacheCount(0);
+  };
+
+  // With nothing explicitly selected the parser reads the first sheet, so show it as checked
+  const isSheetSelected = (name: string) =>
+    selectedSheets.length > 0 ? selectedSheets.includes(name) : sheetNames[0] === name;
+
+  const toggleSheet = (name: string) => {
+    const current = sheetNames.filter(isSheetSelected);
+    setSelectedSheets(current.includes(name) ? current.filter(n => n !== name) : [...current, name]);
+  };
+
+  const handleProviderSelect = (id: ProviderId) => {
+    setProvider(id);
+    setModel(PROVIDERS[id].defaultModel);
+  };
+
+  const parseThreshold = (value: string, fallback: number) =>
+    value !== '' && !isNaN(Number(value)) ? Math.min(1, Math.max(0, Number(value))) : fallback;
+
+  const toggleValue = <T,>(list: T[], value: T): T[] =>
+    list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+  const positive = (value: string) => (Number(value) > 0 ? Number(value) : undefined);
+
+  const buildImageRules = (): ImageRules | undefined => {
+    const rules: ImageRules = {
+      ...(positive(minImageWidth) ? { minWidth: Math.floor(Number(minImageWidth)) } : {}),
+      ...(positive(minImageHeight) ? { minHeight: Math.floor(Number(minImageHeight)) } : {}),
+      ...(parseAspectRatio(aspectRatio) ? { aspectRatio: parseAspectRatio(aspectRatio) } : {}),
+      ...(positive(maxFileSizeKb) ? { maxFileSizeKb: Number(maxFileSizeKb) } : {}),
+      ...(imageFormats.length > 0 ? { formats: imageFormats } : {}),
+      ...(colorSpaces.length > 0 ? { colorSpaces } : {}),
+    };
+    return hasImageRules(rules) ? rules : undefined;
+  };
+
+  // Left unset while it matches the defaults, so cached extractions keep their keys
+  const buildUploadConfig = (): UploadConfig | undefined => {
+    const config: UploadConfig = {
+      maxEdge: maxEdge !== '' && !isNaN(Number(maxEdge)) ? Math.max(0, Math.floor(Number(maxEdge))) : DEFAULT_UPLOAD_CONFIG.maxEdge,
+      format: uploadFormat,
+      quality: parseThreshold(uploadQuality, DEFAULT_UPLOAD_CONFIG.quality),
+      tiling,
+      tileAspect: Number(tileAspect) > 1 ? Number(tileAspect) : DEFAULT_UPLOAD_CONFIG.tileAspect,
+      tileOverlap: tileOverlap !== '' && !isNaN(Number(tileOverlap))
+        ? Math.min(0.5, Math.max(0, Number(tileOverlap) / 100))
+        : DEFAULT_UPLOAD_CONFIG.tileOverlap,
+    };
+    const unchanged = (Object.keys(config) as (keyof UploadConfig)[]).every(key => config[key] === DEFAULT_UPLOAD_CONFIG[key]);
+    return unchanged ? undefined : config;
+  };
+
   const handleSaveConfig = () => {
+    if (onBatchConfigChange) {
+      onBatchConfigChange({
+        requestsPerMinute: Math.max(1, Number(requestsPerMinute) || DEFAULT_BATCH_CONFIG.requestsPerMinute),
+        maxRetries: Math.max(0, Math.floor(Number(maxRetries) || 0)),
+        concurrency: Math.max(1, Math.floor(Number(concurrency) || 1)),
+        quality: {
+          action: qualityAction,
+          minSharpness: Math.max(0, Number(minSharpness) || 0),
+          minContrast: parseThreshold(minContrast, DEFAULT_QUALITY_CONFIG.minContrast),
+          minTextArea: parseThreshold(String(Number(minTextArea) / 100), DEFAULT_QUALITY_CONFIG.minTextArea)
+        },
+        duplicates: {
+          enabled: detectDuplicates,
+          maxDistance: duplicateDistance !== '' && !isNaN(Number(duplicateDistance))
+            ? Math.min(64, Math.max(0, Math.floor(Number(duplicateDistance))))
+            : DEFAULT_DUPLICATE_CONFIG.maxDistance,
+          reuseResults: reuseDuplicates
+        }
+      });
+    }
+    if (onProviderChange) {
+      onProviderChange({
+        provider,
+        model: model || PROVIDERS[provider].defaultModel,
+        baseUrl: baseUrl || undefined,
+        apiKey: apiKey || undefined,
+        useCache,
+        upload: buildUploadConfig()
+      });
+    }
     if (onConfigChange) {
-      onConfigChange({ startCol, endCol });
+      onConfigChange({
+        startCol,
+        endCol,
+        sheets: selectedSheets.filter(name => sheetNames.includes(name)),
+        headerRow: Number(headerRow) > 0 ? Math.floor(Number(headerRow)) : undefined,
+        dataStartRow: Number(dataStartRow) > 0 ? Math.floor(Number(dataStartRow)) : undefined,
+        specUnit: specUnit || undefined,
+        unitCol: unitCol || undefined,
+        numberLocale: numberLocale === 'auto' ? undefined : numberLocale,
+        tolerance: toleranceValue !== '' && !isNaN(Number(toleranceValue))
+          ? { mode: toleranceMode, value: Number(toleranceValue) }
+          : undefined,
+        columnTolerances: parseColumnTolerances(columnTolerances),
+        toleranceCol: toleranceCol || undefined,
+        matching: {
+          skuLookup,
+          tokenMatch,
+          tokenThreshold: parseThreshold(tokenThreshold, DEFAULT_MATCH_CONFIG.tokenThreshold),
+          fuzzyMatch,
+          fuzzyThreshold: parseThreshold(fuzzyThreshold, DEFAULT_MATCH_CONFIG.fuzzyThreshold)
+        },
+        imageRules: buildImageRules()
+      });
       setShowSettings(false);
     }
   };
@@ -91,13 +345,43 @@ const Header: React.FC<HeaderProps> = ({ onSpecsLoaded, onConfigChange, specsCou
 
       {/* Settings Popover */}
       {showSettings && (
-        <div className="absolute top-16 right-6 w-80 bg-slate-900 border border-slate-700 shadow-2xl rounded-xl p-4 z-50">
+        <div className="absolute top-16 right-6 w-80 max-h-[80vh] overflow-y-auto bg-slate-900 border border-slate-700 shadow-2xl rounded-xl p-4 z-50">
             <div className="flex justify-between items-center mb-4">
                 <h3 className="text-sm font-semibold text-slate-200">Validation Configuration</h3>
                 <button onClick={() => setShowSettings(false)}><X className="w-4 h-4 text-slate-500 hover:text-white" /></button>
             </div>
             
             <div className="space-y-3">
+                {sheetNames.length > 1 && (
+                    <div>
+                        <div className="flex justify-between items-center mb-1">
+                            <label className="block text-xs font-medium text-slate-400">Spec Sheets</label>
+                            <button
+                                onClick={() => setSelectedSheets(sheetNames)}
+                                className="text-[10px] text-indigo-400 hover:text-indigo-300"
+                            >
+                                Select all
+                            </button>
+                        </div>
+                        <div className="max-h-28 overflow-y-auto bg-slate-950 border border-slate-700 rounded p-2 space-y-1">
+                            {sheetNames.map(name => (
+                                <label key={name} className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={isSheetSelected(name)}
+                                        onChange={() => toggleSheet(name)}
+                                        className="accent-indigo-500"
+                                    />
+                                    <span className="truncate">{name}</span>
+                                </label>
+                            ))}
+                        </div>
+                        <p className="text-[10px] text-slate-500 leading-tight mt-1">
+                            Rows from every checked sheet are merged into one spec list.
+                        </p>
+                    </div>
+                )}
+
                 <div className="flex gap-3">
                     <div className="flex-1">
                         <label className="block text-xs font-medium text-slate-400 mb-1">Start Column</label>
@@ -125,6 +409,584 @@ const Header: React.FC<HeaderProps> = ({ onSpecsLoaded, onConfigChange, specsCou
                     Specify the Excel column letters (e.g. G to M) where dimension data is stored.
                 </p>
 
+                {onOpenMapping && (
+                    <button
+                        onClick={() => { setShowSettings(false); onOpenMapping(); }}
+                        className="w-full flex items-center justify-center gap-2 border border-slate-700 hover:border-indigo-500/50 hover:bg-indigo-500/10 text-slate-300 py-1.5 rounded-lg text-xs font-medium transition-colors"
+                    >
+                        <Columns3 className="w-3.5 h-3.5" /> Map Columns with Preview...
+                    </button>
+                )}
+
+                <div className="flex gap-3">
+                    <div className="flex-1">
+                        <label className="block text-xs font-medium text-slate-400 mb-1">Header Row</label>
+                        <input 
+                            type="number" 
+                            min="1"
+                            value={headerRow}
+                            onChange={(e) => setHeaderRow(e.target.value)}
+                            className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm text-center focus:border-indigo-500 outline-none"
+                            placeholder="Auto"
+                        />
+                    </div>
+                    <div className="flex-1">
+                        <label className="block text-xs font-medium text-slate-400 mb-1">Data Starts At</label>
+                        <input 
+                            type="number" 
+                            min="1"
+                            value={dataStartRow}
+                            onChange={(e) => setDataStartRow(e.target.value)}
+                            className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm text-center focus:border-indigo-500 outline-none"
+                            placeholder="Next row"
+                        />
+                    </div>
+                </div>
+                <p className="text-[10px] text-slate-500 leading-tight">
+                    Leave blank to skip title blocks and banners automatically. Merged header cells are expanded.
+                </p>
+
+                <div className="flex gap-3">
+                    <div className="flex-1">
+                        <label className="block text-xs font-medium text-slate-400 mb-1">Spec Unit</label>
+                        <select
+                            value={specUnit}
+                            onChange={(e) => setSpecUnit(e.target.value as DimensionUnit | '')}
+                            className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm focus:border-indigo-500 outline-none"
+                        >
+                            <option value="">Not set</option>
+                            <option value="in">Inches (in)</option>
+                            <option value="cm">Centimetres (cm)</option>
+                            <option value="mm">Millimetres (mm)</option>
+                        </select>
+                    </div>
+                    <div className="flex-1">
+                        <label className="block text-xs font-medium text-slate-400 mb-1">Unit Column</label>
+                        <input 
+                            type="text" 
+                            value={unitCol}
+                            onChange={(e) => setUnitCol(e.target.value.toUpperCase())}
+                            className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm text-center uppercase focus:border-indigo-500 outline-none"
+                            placeholder="Auto"
+                        />
+                    </div>
+                </div>
+                <p className="text-[10px] text-slate-500 leading-tight">
+                    A per-row unit column (auto-detected from a "Unit" header) overrides the workbook unit. AI values are converted before matching.
+                </p>
+
+                <div>
+                    <label className="block text-xs font-medium text-slate-400 mb-1">Number Format</label>
+                    <select
+                        value={numberLocale}
+                        onChange={(e) => setNumberLocale(e.target.value as NumberLocale)}
+                        className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm focus:border-indigo-500 outline-none"
+                    >
+                        <option value="auto">Auto-detect</option>
+                        <option value="dot">1,234.5 (decimal point)</option>
+                        <option value="comma">1.234,5 (decimal comma)</option>
+                    </select>
+                    <p className="text-[10px] text-slate-500 leading-tight mt-1">
+                        Applies to spec cells and AI values. Auto-detect reads "45,5" as 45.5 but flags "1,200" in the spec lint report unless the sheet shows which separator it uses.
+                    </p>
+                </div>
+
+                <div className="flex gap-3">
+                    <div className="flex-1">
+                        <label className="block text-xs font-medium text-slate-400 mb-1">Tolerance</label>
+                        <div className="flex gap-1">
+                            <input 
+                                type="number" 
+                                min="0"
+                                step="0.1"
+                                value={toleranceValue}
+                                onChange={(e) => setToleranceValue(e.target.value)}
+                                className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm text-center focus:border-indigo-500 outline-none"
+                            />
+                            <select
+                                value={toleranceMode}
+                                onChange={(e) => setToleranceMode(e.target.value as ToleranceMode)}
+                                className="bg-slate-950 border border-slate-700 rounded px-1 py-1.5 text-sm focus:border-indigo-500 outline-none"
+                            >
+                                <option value="absolute">abs</option>
+                                <option value="percent">%</option>
+                            </select>
+                        </div>
+                    </div>
+                    <div className="flex-1">
+                        <label className="block text-xs font-medium text-slate-400 mb-1">Tolerance Column</label>
+                        <input 
+                            type="text" 
+                            value={toleranceCol}
+                            onChange={(e) => setToleranceCol(e.target.value.toUpperCase())}
+                            className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm text-center uppercase focus:border-indigo-500 outline-none"
+                            placeholder="Auto"
+                        />
+                    </div>
+                </div>
+                <div>
+                    <label className="block text-xs font-medium text-slate-400 mb-1">Column Overrides</label>
+                    <input 
+                        type="text" 
+                        value={columnTolerances}
+                        onChange={(e) => setColumnTolerances(e.target.value)}
+                        className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm font-mono focus:border-indigo-500 outline-none"
+                        placeholder="H=1, K=2%"
+                    />
+                </div>
+                <p className="text-[10px] text-slate-500 leading-tight">
+                    Row tolerance column wins over column overrides, which win over the global tolerance.
+                </p>
+
+                <div className="pt-3 border-t border-slate-800 space-y-2">
+                    <h4 className="text-xs font-semibold text-slate-300">Filename Matching</h4>
+                    <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={skuLookup}
+                            onChange={(e) => setSkuLookup(e.target.checked)}
+                            className="accent-indigo-500"
+                        />
+                        SKU / item code lookup
+                    </label>
+                    <div className="flex items-center justify-between gap-3">
+                        <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={tokenMatch}
+                                onChange={(e) => setTokenMatch(e.target.checked)}
+                                className="accent-indigo-500"
+                            />
+                            Word overlap (reordered names)
+                        </label>
+                        <input
+                            type="number"
+                            min="0"
+                            max="1"
+                            step="0.05"
+                            value={tokenThreshold}
+                            disabled={!tokenMatch}
+                            onChange={(e) => setTokenThreshold(e.target.value)}
+                            className="w-16 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-sm text-center disabled:opacity-40 focus:border-indigo-500 outline-none"
+                        />
+                    </div>
+                    <div className="flex items-center justify-between gap-3">
+                        <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={fuzzyMatch}
+                                onChange={(e) => setFuzzyMatch(e.target.checked)}
+                                className="accent-indigo-500"
+                            />
+                            Edit distance (typos)
+                        </label>
+                        <input
+                            type="number"
+                            min="0"
+                            max="1"
+                            step="0.05"
+                            value={fuzzyThreshold}
+                            disabled={!fuzzyMatch}
+                            onChange={(e) => setFuzzyThreshold(e.target.value)}
+                            className="w-16 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-sm text-center disabled:opacity-40 focus:border-indigo-500 outline-none"
+                        />
+                    </div>
+                    <p className="text-[10px] text-slate-500 leading-tight">
+                        Exact product names always match. Thresholds are 0–1 scores. Queued and skipped images are re-matched unless a batch is running.
+                    </p>
+                    {onOpenFilenameRules && (
+                        <button
+                            onClick={() => { setShowSettings(false); onOpenFilenameRules(); }}
+                            className="w-full flex items-center justify-center gap-2 border border-slate-700 hover:border-indigo-500/50 hover:bg-indigo-500/10 text-slate-300 py-1.5 rounded-lg text-xs font-medium transition-colors"
+                        >
+                            <FileSearch className="w-3.5 h-3.5" /> Filename Rules with Preview...
+                        </button>
+                    )}
+                </div>
+
+                <div className="pt-3 border-t border-slate-800 space-y-3">
+                    <h4 className="text-xs font-semibold text-slate-300">Image Checks</h4>
+                    <div className="flex gap-3">
+                        <div className="flex-1">
+                            <label className="block text-xs font-medium text-slate-400 mb-1">Min Width (px)</label>
+                            <input
+                                type="number"
+                                min="1"
+                                value={minImageWidth}
+                                onChange={(e) => setMinImageWidth(e.target.value)}
+                                className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm text-center focus:border-indigo-500 outline-none"
+                                placeholder="Any"
+                            />
+                        </div>
+                        <div className="flex-1">
+                            <label className="block text-xs font-medium text-slate-400 mb-1">Min Height (px)</label>
+                            <input
+                                type="number"
+                                min="1"
+                                value={minImageHeight}
+                                onChange={(e) => setMinImageHeight(e.target.value)}
+                                className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm text-center focus:border-indigo-500 outline-none"
+                                placeholder="Any"
+                            />
+                        </div>
+                    </div>
+                    <div className="flex gap-3">
+                        <div className="flex-1">
+                            <label className="block text-xs font-medium text-slate-400 mb-1">Aspect Ratio</label>
+                            <input
+                                type="text"
+                                value={aspectRatio}
+                                onChange={(e) => setAspectRatio(e.target.value)}
+                                className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm text-center focus:border-indigo-500 outline-none"
+                                placeholder="e.g. 1:1"
+                            />
+                        </div>
+                        <div className="flex-1">
+                            <label className="block text-xs font-medium text-slate-400 mb-1">Max File Size (KB)</label>
+                            <input
+                                type="number"
+                                min="1"
+                                value={maxFileSizeKb}
+                                onChange={(e) => setMaxFileSizeKb(e.target.value)}
+                                className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm text-center focus:border-indigo-500 outline-none"
+                                placeholder="Any"
+                            />
+                        </div>
+                    </div>
+                    <div>
+                        <label className="block text-xs font-medium text-slate-400 mb-1">Formats</label>
+                        <div className="flex flex-wrap gap-x-4 gap-y-1">
+                            {IMAGE_FORMATS.map(format => (
+                                <label key={format} className="flex items-center gap-1.5 text-xs text-slate-400 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={imageFormats.includes(format)}
+                                        onChange={() => setImageFormats(toggleValue(imageFormats, format))}
+                                        className="accent-indigo-500"
+                                    />
+                                    {format.toUpperCase()}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                    <div>
+                        <label className="block text-xs font-medium text-slate-400 mb-1">Colour Space</label>
+                        <div className="flex flex-wrap gap-x-4 gap-y-1">
+                            {COLOR_SPACES.map(space => (
+                                <label key={space} className="flex items-center gap-1.5 text-xs text-slate-400 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={colorSpaces.includes(space)}
+                                        onChange={() => setColorSpaces(toggleValue(colorSpaces, space))}
+                                        className="accent-indigo-500"
+                                    />
+                                    {space === 'rgb' || space === 'cmyk' ? space.toUpperCase() : space.charAt(0).toUpperCase() + space.slice(1)}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                    <p className="text-[10px] text-slate-500 leading-tight">
+                        Read from the file header, no AI call. Unticked lists allow anything. Spec columns such as
+                        "Min Width (px)", "Aspect Ratio", "Max File Size", "Image Format" or "Colour Space" override these per product.
+                    </p>
+                </div>
+
+                <div className="pt-3 border-t border-slate-800 space-y-3">
+                    <h4 className="text-xs font-semibold text-slate-300">AI Provider</h4>
+                    <div className="flex gap-3">
+                        <div className="flex-1">
+                            <label className="block text-xs font-medium text-slate-400 mb-1">Provider</label>
+                            <select
+                                value={provider}
+                                onChange={(e) => handleProviderSelect(e.target.value as ProviderId)}
+                                className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm focus:border-indigo-500 outline-none"
+                            >
+                                {Object.values(PROVIDERS).map(p => (
+                                    <option key={p.id} value={p.id}>{p.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="flex-1">
+                            <label className="block text-xs font-medium text-slate-400 mb-1">Model</label>
+                            <input 
+                                type="text" 
+                                value={model}
+                                onChange={(e) => setModel(e.target.value)}
+                                disabled={provider === 'mock'}
+                                className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm font-mono focus:border-indigo-500 outline-none disabled:opacity-50"
+                                placeholder={PROVIDERS[provider].defaultModel}
+                            />
+                        </div>
+                    </div>
+                    {provider === 'openai' && (
+                        <>
+                            <div>
+                                <label className="block text-xs font-medium text-slate-400 mb-1">Base URL</label>
+                                <input 
+                                    type="text" 
+                                    value={baseUrl}
+                                    onChange={(e) => setBaseUrl(e.target.value)}
+                                    className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm font-mono focus:border-indigo-500 outline-none"
+                                    placeholder="http://localhost:11434/v1"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-medium text-slate-400 mb-1">API Key</label>
+                                <input 
+                                    type="password" 
+                                    value={apiKey}
+                                    onChange={(e) => setApiKey(e.target.value)}
+                                    className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm font-mono focus:border-indigo-500 outline-none"
+                                    placeholder="Optional for local servers"
+                                />
+                            </div>
+                        </>
+                    )}
+                    {provider === 'mock' && (
+                        <p className="text-[10px] text-slate-500 leading-tight">
+                            Returns canned responses keyed by file name. No network calls are made.
+                        </p>
+                    )}
+                    <div className="flex items-center justify-between gap-3">
+                        <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={useCache}
+                                onChange={(e) => setUseCache(e.target.checked)}
+                                className="accent-indigo-500"
+                            />
+                            Reuse cached extractions
+                        </label>
+                        <button
+                            onClick={handleClearCache}
+                            disabled={!cacheCount}
+                            className="flex items-center gap-1 text-xs text-slate-400 hover:text-red-400 disabled:opacity-40 disabled:hover:text-slate-400 transition-colors"
+                            title="Delete all stored AI results"
+                        >
+                            <DatabaseZap className="w-3.5 h-3.5" /> Clear{cacheCount !== null ? ` (${cacheCount})` : ''}
+                        </button>
+                    </div>
+                </div>
+
+                <div className="pt-3 border-t border-slate-800 space-y-3">
+                    <h4 className="text-xs font-semibold text-slate-300">Upload Preprocessing</h4>
+                    <div className="flex gap-3">
+                        <div className="flex-1">
+                            <label className="block text-xs font-medium text-slate-400 mb-1">Max Edge (px)</label>
+                            <input
+                                type="number"
+                                min="0"
+                                step="256"
+                                value={maxEdge}
+                                onChange={(e) => setMaxEdge(e.target.value)}
+                                className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm text-center focus:border-indigo-500 outline-none"
+                            />
+                        </div>
+                        <div className="flex-1">
+                            <label className="block text-xs font-medium text-slate-400 mb-1">Format</label>
+                            <select
+                                value={uploadFormat}
+                                onChange={(e) => setUploadFormat(e.target.value as UploadFormat)}
+                                className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm focus:border-indigo-500 outline-none"
+                            >
+                                <option value="original">Original</option>
+                                <option value="jpeg">JPEG</option>
+                                <option value="png">PNG</option>
+                                <option value="webp">WebP</option>
+                            </select>
+                        </div>
+                        <div className="flex-1">
+                            <label className="block text-xs font-medium text-slate-400 mb-1">Quality</label>
+                            <input
+                                type="number"
+                                min="0"
+                                max="1"
+                                step="0.05"
+                                value={uploadQuality}
+                                disabled={uploadFormat === 'png'}
+                                onChange={(e) => setUploadQuality(e.target.value)}
+                                className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm text-center disabled:opacity-40 focus:border-indigo-500 outline-none"
+                            />
+                        </div>
+                    </div>
+                    <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={tiling}
+                            onChange={(e) => setTiling(e.target.checked)}
+                            className="accent-indigo-500"
+                        />
+                        Tile wide drawings into overlapping crops
+                    </label>
+                    <div className="flex gap-3">
+                        <div className="flex-1">
+                            <label className="block text-xs font-medium text-slate-400 mb-1">From Aspect Ratio</label>
+                            <input
+                                type="number"
+                                min="1"
+                                step="0.5"
+                                value={tileAspect}
+                                disabled={!tiling}
+                                onChange={(e) => setTileAspect(e.target.value)}
+                                className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm text-center disabled:opacity-40 focus:border-indigo-500 outline-none"
+                            />
+                        </div>
+                        <div className="flex-1">
+                            <label className="block text-xs font-medium text-slate-400 mb-1">Overlap %</label>
+                            <input
+                                type="number"
+                                min="0"
+                                max="50"
+                                step="5"
+                                value={tileOverlap}
+                                disabled={!tiling}
+                                onChange={(e) => setTileOverlap(e.target.value)}
+                                className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm text-center disabled:opacity-40 focus:border-indigo-500 outline-none"
+                            />
+                        </div>
+                    </div>
+                    <p className="text-[10px] text-slate-500 leading-tight">
+                        Images are shrunk in the browser before upload; 0 sends the full size. Each crop costs one AI call, and values
+                        read in overlapping crops are counted once.
+                    </p>
+                </div>
+
+                <div className="pt-3 border-t border-slate-800 space-y-3">
+                    <h4 className="text-xs font-semibold text-slate-300">Batch Throughput</h4>
+                    <div className="flex gap-3">
+                        <div className="flex-1">
+                            <label className="block text-xs font-medium text-slate-400 mb-1">Requests / min</label>
+                            <input 
+                                type="number" 
+                                min="1"
+                                value={requestsPerMinute}
+                                onChange={(e) => setRequestsPerMinute(e.target.value)}
+                                className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm text-center focus:border-indigo-500 outline-none"
+                            />
+                        </div>
+                        <div className="flex-1">
+                            <label className="block text-xs font-medium text-slate-400 mb-1">Max Retries</label>
+                            <input 
+                                type="number" 
+                                min="0"
+                                value={maxRetries}
+                                onChange={(e) => setMaxRetries(e.target.value)}
+                                className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm text-center focus:border-indigo-500 outline-none"
+                            />
+                        </div>
+                        <div className="flex-1">
+                            <label className="block text-xs font-medium text-slate-400 mb-1">Parallel</label>
+                            <input 
+                                type="number" 
+                                min="1"
+                                max="16"
+                                value={concurrency}
+                                onChange={(e) => setConcurrency(e.target.value)}
+                                className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm text-center focus:border-indigo-500 outline-none"
+                            />
+                        </div>
+                    </div>
+                    <p className="text-[10px] text-slate-500 leading-tight">
+                        Parallel calls share the per-minute budget. 429 and 5xx responses back off exponentially; items that stay rate-limited are re-queued, not failed.
+                    </p>
+                </div>
+
+                <div className="pt-3 border-t border-slate-800 space-y-3">
+                    <h4 className="text-xs font-semibold text-slate-300">Quality Preflight</h4>
+                    <div>
+                        <label className="block text-xs font-medium text-slate-400 mb-1">Low-quality Images</label>
+                        <select
+                            value={qualityAction}
+                            onChange={(e) => setQualityAction(e.target.value as QualityAction)}
+                            className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm focus:border-indigo-500 outline-none"
+                        >
+                            <option value="off">Don't check</option>
+                            <option value="flag">Flag, still send to AI</option>
+                            <option value="skip">Skip, no AI call</option>
+                        </select>
+                    </div>
+                    <div className="flex gap-3">
+                        <div className="flex-1">
+                            <label className="block text-xs font-medium text-slate-400 mb-1">Min Sharpness</label>
+                            <input
+                                type="number"
+                                min="0"
+                                value={minSharpness}
+                                disabled={qualityAction === 'off'}
+                                onChange={(e) => setMinSharpness(e.target.value)}
+                                className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm text-center disabled:opacity-40 focus:border-indigo-500 outline-none"
+                            />
+                        </div>
+                        <div className="flex-1">
+                            <label className="block text-xs font-medium text-slate-400 mb-1">Min Contrast</label>
+                            <input
+                                type="number"
+                                min="0"
+                                max="1"
+                                step="0.01"
+                                value={minContrast}
+                                disabled={qualityAction === 'off'}
+                                onChange={(e) => setMinContrast(e.target.value)}
+                                className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm text-center disabled:opacity-40 focus:border-indigo-500 outline-none"
+                            />
+                        </div>
+                        <div className="flex-1">
+                            <label className="block text-xs font-medium text-slate-400 mb-1">Min Text %</label>
+                            <input
+                                type="number"
+                                min="0"
+                                max="100"
+                                step="0.5"
+                                value={minTextArea}
+                                disabled={qualityAction === 'off'}
+                                onChange={(e) => setMinTextArea(e.target.value)}
+                                className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm text-center disabled:opacity-40 focus:border-indigo-500 outline-none"
+                            />
+                        </div>
+                    </div>
+                    <p className="text-[10px] text-slate-500 leading-tight">
+                        Checked in the browser before each AI call: blank images, blur (Laplacian variance), contrast (0–1) and the share of the image with text or linework.
+                    </p>
+                </div>
+
+                <div className="pt-3 border-t border-slate-800 space-y-3">
+                    <h4 className="text-xs font-semibold text-slate-300">Duplicate Images</h4>
+                    <div className="flex items-center justify-between gap-3">
+                        <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={detectDuplicates}
+                                onChange={(e) => setDetectDuplicates(e.target.checked)}
+                                className="accent-indigo-500"
+                            />
+                            Group near-duplicates (max bits apart)
+                        </label>
+                        <input
+                            type="number"
+                            min="0"
+                            max="64"
+                            value={duplicateDistance}
+                            disabled={!detectDuplicates}
+                            onChange={(e) => setDuplicateDistance(e.target.value)}
+                            className="w-16 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-sm text-center disabled:opacity-40 focus:border-indigo-500 outline-none"
+                        />
+                    </div>
+                    <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={reuseDuplicates}
+                            disabled={!detectDuplicates}
+                            onChange={(e) => setReuseDuplicates(e.target.checked)}
+                            className="accent-indigo-500 disabled:opacity-40"
+                        />
+                        Analyse one image per group, reuse its extraction
+                    </label>
+                    <p className="text-[10px] text-slate-500 leading-tight">
+                        Perceptual hashes ignore small text, so drawings that differ only in their numbers can group together.
+                        Keep the distance low (0–4) before reusing extractions.
+                    </p>
+                </div>
+
                 <button 
                     onClick={handleSaveConfig}
                     className="w-full mt-2 flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-500 text-white py-2 rounded-lg text-xs font-semibold transition-colors"
@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import { History, Play, Download, Trash2, Loader2 } from 'lucide-react';
+import { BatchSessionSummary } from '../types';
+import { listSessions, deleteSession } from '../services/sessionStore';
+
+interface RecentSessionsProps {
+  onOpen: (sessionId: string) => void;
+  onExport: (sessionId: string) => void;
+}
+
+// Remounts whenever the single view is shown, so the list is re-read after each batch
+const RecentSessions: React.FC<RecentSessionsProps> = ({ onOpen, onExport }) => {
+  const [sessions, setSessions] = useState<BatchSessionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch(err => console.error("Failed to list sessions", err))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleDelete = async (id: string) => {
+    await deleteSession(id);
+    setSessions(prev => prev.filter(s => s.id !== id));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-slate-500 p-3">
+        <Loader2 className="w-3.5 h-3.5 animate-spin" /> Loading sessions...
+      </div>
+    );
+  }
+
+  if (sessions.length === 0) return null;
+
+  return (
+    <div className="bg-slate-900 rounded-2xl border border-slate-800 overflow-hidden">
+      <div className="px-4 py-3 border-b border-slate-800 flex items-center gap-2">
+        <History className="w-4 h-4 text-indigo-400" />
+        <h3 className="text-xs font-semibold text-slate-300 uppercase tracking-wider">Recent Sessions</h3>
+      </div>
+      <ul className="max-h-48 overflow-y-auto divide-y divide-slate-800">
+        {sessions.map(session => (
+          <li key={session.id} className="px-4 py-2.5 flex items-center justify-between gap-3 hover:bg-slate-800/30">
+            <div className="min-w-0">
+              <p className="text-sm text-slate-200 truncate" title={session.name}>{session.name}</p>
+              <p className="text-[11px] text-slate-500">
+                {new Date(session.updatedAt).toLocaleString()} • {session.completed}/{session.total} completed
+              </p>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <button
+                onClick={() => onOpen(session.id)}
+                className="p-1.5 rounded text-slate-400 hover:text-indigo-400 hover:bg-slate-800"
+                title="Reopen and continue"
+              >
+                <Play className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => onExport(session.id)}
+                className="p-1.5 rounded text-slate-400 hover:text-emerald-400 hover:bg-slate-800"
+                title="Export report"
+              >
+                <Download className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => handleDelete(session.id)}
+                className="p-1.5 rounded text-slate-400 hover:text-red-400 hover:bg-slate-800"
+                title="Delete session"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default RecentSessions;
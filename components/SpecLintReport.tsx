@@ -0,0 +1,117 @@
+import React, { useMemo, useState } from 'react';
+import { X, ClipboardCheck, AlertOctagon, AlertTriangle, Download, CheckCircle2 } from 'lucide-react';
+import { SpecIssue, SpecIssueCheck } from '../types';
+import { SPEC_CHECK_LABELS, downloadSpecLintReport } from '../utils/specLint';
+
+interface SpecLintReportProps {
+  issues: SpecIssue[];
+  specsCount: number;
+  specFileName?: string;
+  onClose: () => void;
+}
+
+const SpecLintReport: React.FC<SpecLintReportProps> = ({ issues, specsCount, specFileName, onClose }) => {
+  const [filter, setFilter] = useState<SpecIssueCheck | 'ALL'>('ALL');
+
+  const counts = useMemo(() => {
+    const byCheck = new Map<SpecIssueCheck, number>();
+    issues.forEach(issue => byCheck.set(issue.check, (byCheck.get(issue.check) || 0) + 1));
+    return byCheck;
+  }, [issues]);
+
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const visible = filter === 'ALL' ? issues : issues.filter(issue => issue.check === filter);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-6">
+      <div className="w-full max-w-5xl max-h-full flex flex-col bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden">
+        {/* Header */}
+        <div className="p-5 border-b border-slate-800 flex justify-between items-center">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-100 flex items-center gap-2">
+              <ClipboardCheck className="w-5 h-5 text-indigo-400" />
+              Spec Sheet Lint
+            </h3>
+            <p className="text-sm text-slate-500 mt-1">
+              {specFileName || 'Spec sheet'} • {specsCount} rows • {errorCount} errors, {issues.length - errorCount} warnings
+            </p>
+          </div>
+          <button onClick={onClose}><X className="w-5 h-5 text-slate-500 hover:text-white" /></button>
+        </div>
+
+        {/* Check filters */}
+        {issues.length > 0 && (
+          <div className="px-5 py-3 border-b border-slate-800 flex flex-wrap gap-2">
+            <button
+              onClick={() => setFilter('ALL')}
+              className={`text-xs px-2.5 py-1 rounded-full border transition-colors ${filter === 'ALL' ? 'border-indigo-500/50 bg-indigo-500/10 text-indigo-300' : 'border-slate-700 text-slate-400 hover:text-slate-200'}`}
+            >
+              All ({issues.length})
+            </button>
+            {Array.from(counts.entries()).map(([check, count]) => (
+              <button
+                key={check}
+                onClick={() => setFilter(check)}
+                className={`text-xs px-2.5 py-1 rounded-full border transition-colors ${filter === check ? 'border-indigo-500/50 bg-indigo-500/10 text-indigo-300' : 'border-slate-700 text-slate-400 hover:text-slate-200'}`}
+              >
+                {SPEC_CHECK_LABELS[check]} ({count})
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Issues */}
+        <div className="flex-1 overflow-auto">
+          {issues.length === 0 ? (
+            <div className="p-12 flex flex-col items-center gap-2 text-emerald-400 text-sm">
+              <CheckCircle2 className="w-8 h-8" />
+              No problems found in the parsed spec rows.
+            </div>
+          ) : (
+            <table className="w-full text-left border-collapse text-sm">
+              <thead className="bg-slate-950 text-slate-400 sticky top-0 text-xs uppercase tracking-wider">
+                <tr>
+                  <th className="p-3 border-b border-slate-800 w-10"></th>
+                  <th className="p-3 border-b border-slate-800">Check</th>
+                  <th className="p-3 border-b border-slate-800">Location</th>
+                  <th className="p-3 border-b border-slate-800">Product</th>
+                  <th className="p-3 border-b border-slate-800">Details</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800">
+                {visible.map((issue, i) => (
+                  <tr key={i} className="hover:bg-slate-800/30">
+                    <td className="p-3">
+                      {issue.severity === 'error'
+                        ? <AlertOctagon className="w-4 h-4 text-red-400" />
+                        : <AlertTriangle className="w-4 h-4 text-amber-400" />}
+                    </td>
+                    <td className="p-3 text-slate-300 whitespace-nowrap">{SPEC_CHECK_LABELS[issue.check]}</td>
+                    <td className="p-3 text-slate-500 font-mono text-xs whitespace-nowrap">
+                      {[issue.sheet, issue.rowNumber && `row ${issue.rowNumber}`, issue.column && `col ${issue.column}`].filter(Boolean).join(' • ')}
+                    </td>
+                    <td className="p-3 text-slate-200 truncate max-w-[220px]" title={issue.productName}>{issue.productName || '—'}</td>
+                    <td className="p-3 text-slate-400">{issue.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-800 flex justify-end">
+          <button
+            onClick={() => downloadSpecLintReport(issues, specFileName)}
+            disabled={issues.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            <Download className="w-4 h-4" /> Export Report
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SpecLintReport;
@@ -0,0 +1,203 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Columns3, Loader2, Save, RotateCcw } from 'lucide-react';
+import { WorkBook } from 'xlsx';
+import { ColumnMapping, ValidationConfig } from '../types';
+import {
+  readSpecWorkbook, previewSpecSheet, parseSpecWorkbook, suggestColumnMapping, formatDimensionLabel, formatExpected
+} from '../utils/validation';
+
+type ColumnRole = 'none' | 'product' | 'size' | 'sku' | 'dimension';
+
+interface SpecMappingViewProps {
+  file: File;
+  config: ValidationConfig;
+  onApply: (mapping: ColumnMapping | undefined) => void;
+  onClose: () => void;
+}
+
+const ROLE_STYLES: Record<ColumnRole, string> = {
+  none: 'border-slate-700 text-slate-500',
+  product: 'border-indigo-500/50 bg-indigo-500/10 text-indigo-300',
+  size: 'border-purple-500/50 bg-purple-500/10 text-purple-300',
+  sku: 'border-amber-500/50 bg-amber-500/10 text-amber-300',
+  dimension: 'border-emerald-500/50 bg-emerald-500/10 text-emerald-300',
+};
+
+const PREVIEW_SPEC_ROWS = 10;
+
+const SpecMappingView: React.FC<SpecMappingViewProps> = ({ file, config, onApply, onClose }) => {
+  const [workbook, setWorkbook] = useState<WorkBook | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    readSpecWorkbook(file)
+      .then(wb => {
+        setWorkbook(wb);
+        setMapping(suggestColumnMapping(previewSpecSheet(wb, config), config));
+      })
+      .catch(err => setError(err.message || 'Could not read workbook'));
+  }, [file]);
+
+  const preview = useMemo(
+    () => (workbook ? previewSpecSheet(workbook, config) : null),
+    [workbook, config]
+  );
+
+  // Live parse with the draft mapping: exactly what validation would receive
+  const parsedRows = useMemo(
+    () => (workbook && mapping ? parseSpecWorkbook(workbook, { ...config, columnMapping: mapping }) : []),
+    [workbook, mapping, config]
+  );
+
+  const roleOf = (letter: string): ColumnRole => {
+    if (!mapping) return 'none';
+    if (mapping.productCol === letter) return 'product';
+    if (mapping.sizeCol === letter) return 'size';
+    if (mapping.skuCol === letter) return 'sku';
+    if (mapping.dimensionCols.includes(letter)) return 'dimension';
+    return 'none';
+  };
+
+  const setRole = (letter: string, role: ColumnRole) => {
+    if (!mapping) return;
+    // Clear the column from every role first; product/size/sku hold a single column each
+    const next: ColumnMapping = {
+      productCol: mapping.productCol === letter ? undefined : mapping.productCol,
+      sizeCol: mapping.sizeCol === letter ? undefined : mapping.sizeCol,
+      skuCol: mapping.skuCol === letter ? undefined : mapping.skuCol,
+      dimensionCols: mapping.dimensionCols.filter(c => c !== letter),
+    };
+    if (role === 'product') next.productCol = letter;
+    if (role === 'size') next.sizeCol = letter;
+    if (role === 'sku') next.skuCol = letter;
+    if (role === 'dimension') next.dimensionCols = [...next.dimensionCols, letter];
+    setMapping(next);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-6">
+      <div className="w-full max-w-6xl max-h-full flex flex-col bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden">
+        {/* Header */}
+        <div className="p-5 border-b border-slate-800 flex justify-between items-center">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-100 flex items-center gap-2">
+              <Columns3 className="w-5 h-5 text-indigo-400" />
+              Spec Column Mapping
+            </h3>
+            <p className="text-sm text-slate-500 mt-1">
+              {preview
+                ? <>Sheet <span className="text-slate-300">{preview.sheetName}</span> • header on row {preview.headerRowNumber}</>
+                : file.name}
+            </p>
+          </div>
+          <button onClick={onClose}><X className="w-5 h-5 text-slate-500 hover:text-white" /></button>
+        </div>
+
+        {error && <div className="p-5 text-sm text-red-400">{error}</div>}
+
+        {!error && (!preview || !mapping) && (
+          <div className="p-12 flex items-center justify-center gap-2 text-slate-500 text-sm">
+            <Loader2 className="w-4 h-4 animate-spin" /> Reading workbook...
+          </div>
+        )}
+
+        {preview && mapping && (
+          <div className="flex-1 overflow-auto p-5 space-y-6">
+            {/* Sheet preview with a role picker above every column */}
+            <div className="overflow-x-auto border border-slate-800 rounded-lg">
+              <table className="text-left border-collapse text-xs">
+                <thead className="bg-slate-950 text-slate-400 sticky top-0">
+                  <tr>
+                    <th className="p-2 border-b border-slate-800 w-10"></th>
+                    {preview.columns.map(col => (
+                      <th key={col.letter} className="p-2 border-b border-l border-slate-800 min-w-[120px] align-top">
+                        <select
+                          value={roleOf(col.letter)}
+                          onChange={(e) => setRole(col.letter, e.target.value as ColumnRole)}
+                          className={`w-full bg-slate-950 border rounded px-1.5 py-1 text-[11px] outline-none ${ROLE_STYLES[roleOf(col.letter)]}`}
+                        >
+                          <option value="none">Ignore</option>
+                          <option value="product">Product Name</option>
+                          <option value="size">Size</option>
+                          <option value="sku">SKU</option>
+                          <option value="dimension">Dimension</option>
+                        </select>
+                        <div className="mt-1.5 font-semibold text-slate-300 truncate" title={col.header}>
+                          <span className="text-slate-600 font-mono mr-1">{col.letter}</span>{col.header || '—'}
+                        </div>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-800">
+                  {preview.rows.map(row => (
+                    <tr key={row.rowNumber}>
+                      <td className="p-2 text-slate-600 font-mono">{row.rowNumber}</td>
+                      {row.cells.map((cell, i) => (
+                        <td
+                          key={i}
+                          className={`p-2 border-l border-slate-800 truncate max-w-[180px] ${roleOf(preview.columns[i].letter) === 'none' ? 'text-slate-500' : 'text-slate-200'}`}
+                          title={cell}
+                        >
+                          {cell}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Parsed result preview */}
+            <div>
+              <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-2">
+                Parsed Spec Rows ({parsedRows.length})
+              </h4>
+              <div className="border border-slate-800 rounded-lg divide-y divide-slate-800">
+                {parsedRows.slice(0, PREVIEW_SPEC_ROWS).map((spec, i) => (
+                  <div key={i} className="p-2.5 flex items-center gap-4 text-sm">
+                    <span className="text-slate-200 font-medium w-56 truncate" title={spec.productName}>{spec.productName}</span>
+                    <span className="text-slate-500 w-20 truncate">{spec.size}</span>
+                    <span className="text-amber-300/80 font-mono text-xs w-24 truncate">{spec.sku || ''}</span>
+                    <span className="flex flex-wrap gap-1.5">
+                      {spec.dimensions.length === 0 && <span className="text-xs text-red-400 italic">No dimensions</span>}
+                      {spec.dimensions.map((d, j) => (
+                        <span key={j} className="text-xs font-mono bg-emerald-500/10 text-emerald-300 px-1.5 py-0.5 rounded" title={`Column ${d.column}: ${d.header}`}>
+                          {d.label ? `${formatDimensionLabel(d.label)} ` : ''}{formatExpected(d.value, d.max)}
+                        </span>
+                      ))}
+                    </span>
+                  </div>
+                ))}
+                {parsedRows.length === 0 && (
+                  <div className="p-3 text-sm text-slate-500 italic">No rows parsed. Pick a product name column.</div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-800 flex justify-between">
+          <button
+            onClick={() => onApply(undefined)}
+            className="flex items-center gap-2 px-4 py-2 text-sm text-slate-400 hover:text-slate-200 transition-colors"
+            title="Go back to automatic detection and the start/end column range"
+          >
+            <RotateCcw className="w-4 h-4" /> Clear Mapping
+          </button>
+          <button
+            onClick={() => mapping && onApply(mapping)}
+            disabled={!mapping}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            <Save className="w-4 h-4" /> Apply Mapping
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SpecMappingView;
@@ -0,0 +1,137 @@
+import React, { useMemo, useState } from 'react';
+import { X, Search, Link2, Plus, Trash2, Save } from 'lucide-react';
+import { SpecRow } from '../types';
+
+interface SpecPickerProps {
+  fileName: string;
+  specs: SpecRow[];
+  selected: SpecRow[];
+  hasResponse: boolean; // Existing AI result: applying re-validates instead of re-queueing
+  onApply: (specs: SpecRow[]) => void;
+  onClose: () => void;
+}
+
+const MAX_RESULTS = 50;
+
+const specLabel = (spec: SpecRow) => [spec.productName, spec.size, spec.sku].filter(Boolean).join(' • ');
+
+// Restored sessions hold copies of the spec rows, so compare by position in the workbook
+const sameSpec = (a: SpecRow, b: SpecRow) =>
+  a === b || (a.productSlug === b.productSlug && a.size === b.size && a.sheet === b.sheet && a.rowNumber === b.rowNumber);
+
+const SpecPicker: React.FC<SpecPickerProps> = ({ fileName, specs, selected, hasResponse, onApply, onClose }) => {
+  const [draft, setDraft] = useState<SpecRow[]>(selected);
+  const [query, setQuery] = useState('');
+
+  // Every search word must appear in the name, size or SKU
+  const results = useMemo(() => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return specs
+      .filter(spec => !draft.some(d => sameSpec(d, spec)))
+      .filter(spec => {
+        const haystack = `${spec.productName} ${spec.size} ${spec.sku || ''}`.toLowerCase();
+        return words.every(word => haystack.includes(word));
+      })
+      .slice(0, MAX_RESULTS);
+  }, [specs, draft, query]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-6">
+      <div className="w-full max-w-2xl max-h-full flex flex-col bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden">
+        {/* Header */}
+        <div className="p-5 border-b border-slate-800 flex justify-between items-center">
+          <div className="min-w-0">
+            <h3 className="text-lg font-semibold text-slate-100 flex items-center gap-2">
+              <Link2 className="w-5 h-5 text-indigo-400" />
+              Assign Specs
+            </h3>
+            <p className="text-sm text-slate-500 mt-1 truncate" title={fileName}>{fileName}</p>
+          </div>
+          <button onClick={onClose}><X className="w-5 h-5 text-slate-500 hover:text-white" /></button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-5 space-y-5">
+          {/* Current assignment */}
+          <div>
+            <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-2">
+              Assigned ({draft.length})
+            </h4>
+            <div className="border border-slate-800 rounded-lg divide-y divide-slate-800">
+              {draft.map((spec, i) => (
+                <div key={i} className="p-2.5 flex items-center justify-between gap-3 text-sm">
+                  <span className="text-slate-200 truncate" title={specLabel(spec)}>{specLabel(spec)}</span>
+                  <button
+                    onClick={() => setDraft(draft.filter(d => d !== spec))}
+                    className="text-slate-500 hover:text-red-400 transition-colors"
+                    title="Remove"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              {draft.length === 0 && (
+                <div className="p-3 text-sm text-slate-500 italic">No specs assigned. The image will be skipped.</div>
+              )}
+            </div>
+          </div>
+
+          {/* Search */}
+          <div>
+            <div className="relative mb-2">
+              <Search className="w-4 h-4 text-slate-500 absolute left-2.5 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                autoFocus
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                className="w-full bg-slate-950 border border-slate-700 rounded pl-8 pr-2 py-1.5 text-sm focus:border-indigo-500 outline-none"
+                placeholder="Search product, size or SKU"
+              />
+            </div>
+            <div className="border border-slate-800 rounded-lg divide-y divide-slate-800">
+              {results.map((spec, i) => (
+                <div key={i} className="p-2.5 flex items-center justify-between gap-3 text-sm hover:bg-slate-800/30">
+                  <span className="text-slate-300 truncate" title={specLabel(spec)}>{specLabel(spec)}</span>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <button
+                      onClick={() => setDraft([spec])}
+                      className="text-xs px-2 py-1 rounded border border-slate-700 text-slate-300 hover:border-indigo-500/50 hover:text-indigo-300 transition-colors"
+                      title="Replace the assigned specs with this one"
+                    >
+                      Assign
+                    </button>
+                    <button
+                      onClick={() => setDraft([...draft, spec])}
+                      className="text-slate-500 hover:text-emerald-400 transition-colors"
+                      title="Add to the assigned specs"
+                    >
+                      <Plus className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+              {results.length === 0 && (
+                <div className="p-3 text-sm text-slate-500 italic">No spec rows found.</div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-800 flex justify-between items-center">
+          <span className="text-xs text-slate-500">
+            {hasResponse ? 'Existing extraction will be re-validated.' : 'Image will be queued for processing.'}
+          </span>
+          <button
+            onClick={() => onApply(draft)}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            <Save className="w-4 h-4" /> Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SpecPicker;
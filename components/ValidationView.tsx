@@ -1,13 +1,15 @@
 import React from 'react';
-import { CheckCircle2, AlertTriangle, XCircle, Search, Box } from 'lucide-react';
+import { CheckCircle2, AlertTriangle, XCircle, Search, Box, ArrowRightLeft } from 'lucide-react';
 import { ValidationResult } from '../types';
+import { formatToleranceRule, formatDimensionLabel, formatExpected } from '../utils/validation';
 
 interface ValidationViewProps {
   validation: ValidationResult;
 }
 
 const ValidationView: React.FC<ValidationViewProps> = ({ validation }) => {
-  const { status, matchedRow, matches, missing, extra } = validation;
+  const { status, matchedRow, matches, mismatches = [], missing, missingRanges = [], extra, conversion } = validation;
+  const missingCount = missing.length + missingRanges.length;
 
   const getStatusColor = () => {
     switch (status) {
@@ -55,8 +57,8 @@ const ValidationView: React.FC<ValidationViewProps> = ({ validation }) => {
           
           <div className="flex flex-col items-end">
             <div className="text-right text-xs font-mono opacity-70">
-              <div>Expected: {matches.length + missing.length}</div>
-              <div>Detected: {matches.length + extra.length}</div>
+              <div>Expected: {matches.length + mismatches.length + missingCount}</div>
+              <div>Detected: {matches.length + mismatches.length + extra.length}</div>
             </div>
           </div>
         </div>
@@ -70,9 +72,21 @@ const ValidationView: React.FC<ValidationViewProps> = ({ validation }) => {
                 <p className="text-[10px] opacity-60 uppercase tracking-widest font-semibold mb-0.5">Matched Product</p>
                 <div className="text-base font-semibold text-slate-100 tracking-tight">
                     {matchedRow?.productName} <span className="text-slate-500 text-sm font-normal">{matchedRow?.size}</span>
+                    {matchedRow?.unit && <span className="ml-2 text-[10px] font-mono uppercase opacity-70">{matchedRow.unit}</span>}
                 </div>
+                {matchedRow?.sheet && (
+                    <p className="text-[11px] opacity-60 mt-0.5">Sheet: {matchedRow.sheet}</p>
+                )}
             </div>
         </div>
+
+        {/* Unit Conversion Banner */}
+        {conversion && (
+            <div className="mt-3 flex items-center gap-2 text-xs font-mono opacity-80">
+                <ArrowRightLeft className="w-3.5 h-3.5" />
+                <span>Detected {conversion.from} converted to {conversion.to} (× {Number(conversion.factor.toFixed(4))})</span>
+            </div>
+        )}
       </div>
 
       {/* Comparison Grid */}
@@ -86,10 +100,44 @@ const ValidationView: React.FC<ValidationViewProps> = ({ validation }) => {
             </h4>
             <div className="space-y-1">
               {matches.map((m, i) => (
-                <div key={i} className="flex justify-between text-sm font-mono text-emerald-300 bg-emerald-500/5 px-2 py-1 rounded">
-                   <span>{m.expected}</span>
+                <div
+                  key={i}
+                  className="flex justify-between text-sm font-mono text-emerald-300 bg-emerald-500/5 px-2 py-1 rounded"
+                  title={`Passed ${m.tolerance.source} tolerance ${formatToleranceRule(m.tolerance)} (allowed ${Number(m.tolerance.allowed.toFixed(3))}, diff ${m.diff})`}
+                >
+                   <span>
+                     {m.label && <span className="text-emerald-600 text-xs mr-1">{formatDimensionLabel(m.label)}</span>}
+                     {formatExpected(m.expected, m.expectedMax)}
+                     {m.expectedMax !== undefined && <span className="text-emerald-700 text-[10px] ml-1">range</span>}
+                   </span>
                    <span className="text-emerald-600 mx-2">≈</span>
-                   <span>{m.detected}</span>
+                   <span>
+                     {m.detected}
+                     {m.original !== undefined && (
+                       <span className="text-emerald-600 text-xs ml-1">({m.original} {conversion?.from})</span>
+                     )}
+                     <span className="text-emerald-700 text-[10px] ml-1">{formatToleranceRule(m.tolerance)}</span>
+                   </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Same-axis mismatches */}
+        {mismatches.length > 0 && (
+          <div className="bg-red-950/20 border border-red-500/20 rounded-lg p-3">
+            <h4 className="text-xs font-semibold text-red-500 mb-2 uppercase flex items-center gap-2">
+              <XCircle className="w-3 h-3" /> Out of Tolerance ({mismatches.length})
+            </h4>
+            <div className="space-y-1">
+              {mismatches.map((m, i) => (
+                <div
+                  key={i}
+                  className="text-sm font-mono text-red-300 bg-red-500/5 px-2 py-1 rounded"
+                  title={`Allowed ${formatToleranceRule(m.tolerance)} (${m.tolerance.source}), diff ${m.diff}`}
+                >
+                  {formatDimensionLabel(m.label)} expected {formatExpected(m.expected, m.expectedMax)}, found {m.detected}
                 </div>
               ))}
             </div>
@@ -97,10 +145,10 @@ const ValidationView: React.FC<ValidationViewProps> = ({ validation }) => {
         )}
 
         {/* Missing */}
-        {missing.length > 0 && (
+        {missingCount > 0 && (
           <div className="bg-amber-950/20 border border-amber-500/20 rounded-lg p-3">
             <h4 className="text-xs font-semibold text-amber-500 mb-2 uppercase flex items-center gap-2">
-              <AlertTriangle className="w-3 h-3" /> Missing Specs ({missing.length})
+              <AlertTriangle className="w-3 h-3" /> Missing Specs ({missingCount})
             </h4>
             <div className="flex flex-wrap gap-2">
               {missing.map((m, i) => (
@@ -108,6 +156,11 @@ const ValidationView: React.FC<ValidationViewProps> = ({ validation }) => {
                    {m}
                 </span>
               ))}
+              {missingRanges.map((r, i) => (
+                <span key={`range-${i}`} className="text-sm font-mono text-amber-300 bg-amber-500/10 px-2 py-1 rounded border border-dashed border-amber-500/40" title="Any value in this range would pass">
+                   {formatExpected(r.min, r.max)}
+                </span>
+              ))}
             </div>
           </div>
         )}
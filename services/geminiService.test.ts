@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnalysisInput, GeminiResponse, Measurement, ProviderSettings } from '../types';
+import { analyzeContent, mergeResponses } from './geminiService';
+import { mockProvider } from './providers/mockProvider';
+import { MOCK_FIXTURES } from './providers/mockFixtures';
+import { ResponseSchemaError } from './responseSchema';
+
+const MOCK_SETTINGS: ProviderSettings = { provider: 'mock', model: 'fixtures', useCache: false };
+
+const image = (fileName: string): AnalysisInput => ({ type: 'image', content: '', mimeType: 'image/png', fileName });
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('analyzeContent with the mock provider', () => {
+  it('returns the fixture for a known file name', async () => {
+    await expect(analyzeContent(image('lounge-chair.jpg'), MOCK_SETTINGS)).resolves.toEqual(MOCK_FIXTURES['lounge-chair.jpg']);
+  });
+
+  it('gives unknown files the same made-up width, depth and height every time', async () => {
+    const first = await analyzeContent(image('unlisted-sofa.jpg'), MOCK_SETTINGS);
+    expect(first.measurements.map(m => m.label)).toEqual(['width', 'depth', 'height']);
+    await expect(analyzeContent(image('unlisted-sofa.jpg'), MOCK_SETTINGS)).resolves.toEqual(first);
+  });
+
+  it('re-asks after a malformed answer, taking a slot for the repair call', async () => {
+    const generate = vi.spyOn(mockProvider, 'generate').mockResolvedValueOnce('{"dimensions": ["24-26"]}');
+    const acquireSlot = vi.fn(async () => undefined);
+
+    await expect(analyzeContent(image('lounge-chair.jpg'), MOCK_SETTINGS, undefined, acquireSlot)).resolves.toEqual(MOCK_FIXTURES['lounge-chair.jpg']);
+    expect(generate).toHaveBeenCalledTimes(2);
+    expect(acquireSlot).toHaveBeenCalledTimes(1);
+    expect(generate.mock.calls[1][0].prompt).toContain('YOUR PREVIOUS REPLY WAS REJECTED');
+    expect(generate.mock.calls[1][0].prompt).toContain('dimensions[0]: expected a single number, got the range "24-26"');
+  });
+
+  it('gives up with the schema errors after the repair attempts', async () => {
+    const generate = vi.spyOn(mockProvider, 'generate').mockResolvedValue('not json');
+    await expect(analyzeContent(image('lounge-chair.jpg'), MOCK_SETTINGS)).rejects.toBeInstanceOf(ResponseSchemaError);
+    expect(generate).toHaveBeenCalledTimes(3);
+  });
+
+  it('stops when the signal aborts', async () => {
+    const controller = new AbortController();
+    const run = analyzeContent(image('lounge-chair.jpg'), MOCK_SETTINGS, controller.signal);
+    controller.abort();
+    await expect(run).rejects.toThrow('Aborted');
+  });
+});
+
+const tile = (measurements: Measurement[], units = 'inches'): GeminiResponse => ({
+  measurements,
+  dimensions: measurements.map(m => m.value),
+  units,
+  markdown_table: '',
+  raw_text: '',
+});
+
+describe('mergeResponses', () => {
+  it('returns a single response unchanged', () => {
+    const only = tile([{ value: 24, label: 'width' }]);
+    expect(mergeResponses([only])).toBe(only);
+  });
+
+  it('counts a value read in two overlapping crops once', () => {
+    const merged = mergeResponses([
+      tile([{ value: 24, label: 'width' }, { value: 18, label: 'depth' }]),
+      tile([{ value: 18, label: 'depth' }, { value: 30, label: 'height' }]),
+    ]);
+    expect(merged.measurements).toEqual([{ value: 24, label: 'width' }, { value: 18, label: 'depth' }, { value: 30, label: 'height' }]);
+    expect(merged.dimensions).toEqual([24, 18, 30]);
+  });
+
+  it('keeps repeats that a single crop saw', () => {
+    const merged = mergeResponses([
+      tile([{ value: 12, label: 'height' }, { value: 12, label: 'height' }]),
+      tile([{ value: 12, label: 'height' }]),
+    ]);
+    expect(merged.dimensions).toEqual([12, 12]);
+  });
+
+  it('drops unlabeled copies of a value another crop labelled', () => {
+    const merged = mergeResponses([
+      tile([{ value: 24 }, { value: 7 }]),
+      tile([{ value: 24, label: 'width' }]),
+    ]);
+    expect(merged.measurements).toEqual([{ value: 7 }, { value: 24, label: 'width' }]);
+  });
+
+  it('keeps the same value under different labels', () => {
+    const merged = mergeResponses([tile([{ value: 18, label: 'width' }]), tile([{ value: 18, label: 'depth' }])]);
+    expect(merged.dimensions).toEqual([18, 18]);
+  });
+
+  it('takes the unit most crops agree on, ignoring crops that found none', () => {
+    expect(mergeResponses([tile([], 'unknown'), tile([], 'cm'), tile([], 'cm'), tile([], 'inches')]).units).toBe('cm');
+    expect(mergeResponses([tile([], 'unknown'), tile([], 'unknown')]).units).toBe('unknown');
+  });
+});
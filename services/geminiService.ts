@@ -1,25 +1,30 @@
-import { GoogleGenAI } from "@google/genai";
-import { AnalysisInput, GeminiResponse } from "../types";
+import { AnalysisInput, GeminiResponse, Measurement, ProviderRequest, ProviderSettings } from "../types";
+import { DEFAULT_PROVIDER_SETTINGS, getProvider } from "./providers";
+import { ProviderError } from "./providers/providerError";
+import { RESPONSE_JSON_SCHEMA, ResponseSchemaError, parseResponseText } from "./responseSchema";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Re-asks after the first malformed answer; total calls = 1 + MAX_REPAIR_ATTEMPTS
+const MAX_REPAIR_ATTEMPTS = 2;
 
-export const analyzeContent = async (input: AnalysisInput): Promise<GeminiResponse> => {
-  try {
-    let prompt = "";
-    let contents: any = {};
+// Bump whenever the prompt, the response schema or the way answers are coerced changes so cached
+// extractions are not reused. v4: string values go through the dimension parser.
+export const PROMPT_VERSION = 'v4';
 
-    if (input.type === 'image') {
-      prompt = `
+const buildRequest = (input: AnalysisInput): ProviderRequest => {
+  if (input.type === 'image') {
+    const prompt = `
         You are a Quality Control AI specializing in Dimension Extraction.
         
         TASK:
         Analyze the image and extract ALL numerical dimensions (length, width, height, etc.).
+        Label each value with the axis it measures.
         
         OUTPUT FORMAT:
         Return a valid JSON object. Do not wrap in markdown code blocks.
         
         JSON Structure:
         {
+          "measurements": [{ "label": "width | depth | height | length | diameter | seat_height | arm_height | thickness | unknown", "value": number }, ...],
           "dimensions": [number, number, ...],
           "units": "string (inches, cm, mm, etc)",
           "markdown_table": "A formatted markdown table summarizing the findings for display",
@@ -30,51 +35,122 @@ export const analyzeContent = async (input: AnalysisInput): Promise<GeminiRespon
         1. Convert fractions to decimals if found (e.g., 1/2 -> 0.5).
         2. Filter out non-dimension numbers like Barcodes, IDs, or Dates unless they look like dimensions.
         3. Identify the most likely unit of measurement.
-      `;
+        4. Use "unknown" as the label when the drawing does not show which axis a value belongs to.
+        5. "dimensions" must list the same values as "measurements".
+      ${input.tile ? `
+        This image is crop ${input.tile.index + 1} of ${input.tile.count} of a wider drawing.
+        Skip values that are cut off at the crop edge; the neighbouring crop shows them whole.
+      ` : ''}`;
+
+    return {
+      prompt,
+      image: { data: input.content, mimeType: input.mimeType },
+      fileName: input.fileName,
+      responseSchema: RESPONSE_JSON_SCHEMA,
+    };
+  }
 
-      contents = {
-        parts: [
-          {
-            inlineData: {
-              data: input.content,
-              mimeType: input.mimeType,
-            },
-          },
-          { text: prompt },
-        ],
-      };
-    } else {
-      // Logic for generic text/csv analysis if needed in future
-      // For now, mapping this to the same JSON structure for consistency
-       prompt = `
+  // Logic for generic text/csv analysis if needed in future
+  // For now, mapping this to the same JSON structure for consistency
+  const prompt = `
         Extract dimensions from this text data.
-        Return JSON: { "dimensions": [], "units": "unknown", "markdown_table": "...", "raw_text": "..." }
+        Return JSON: { "measurements": [{ "label": "...", "value": 0 }], "dimensions": [], "units": "unknown", "markdown_table": "...", "raw_text": "..." }
         Data: ${input.content}
       `;
-       contents = { parts: [{ text: prompt }] };
-    }
+  return { prompt, fileName: input.fileName, responseSchema: RESPONSE_JSON_SCHEMA };
+};
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: contents,
-      config: {
-        responseMimeType: "application/json"
-      }
-    });
+const buildRepairRequest = (request: ProviderRequest, previousText: string, errors: string[]): ProviderRequest => ({
+  ...request,
+  prompt: `${request.prompt}
+
+        YOUR PREVIOUS REPLY WAS REJECTED:
+        ${errors.map(e => `- ${e}`).join('\n        ')}
+
+        Previous reply:
+        ${previousText.slice(0, 2000)}
+
+        Return the corrected JSON object only. Every dimension value must be a plain positive number.
+      `,
+});
+
+// `acquireSlot` runs before every repair attempt, so a scheduler can count those calls
+// against its budget too; the first call is expected to be inside a slot already
+export const analyzeContent = async (
+  input: AnalysisInput,
+  settings: ProviderSettings = DEFAULT_PROVIDER_SETTINGS,
+  signal?: AbortSignal,
+  acquireSlot?: () => Promise<void>
+): Promise<GeminiResponse> => {
+  try {
+    const provider = getProvider(settings.provider);
+    const baseRequest = buildRequest(input);
+    let request = baseRequest;
+    let errors: string[] = [];
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      if (attempt > 0 && acquireSlot) await acquireSlot();
+      const text = await provider.generate(request, settings, signal);
+      const check = parseResponseText(text, input.numberLocale);
+      if (check.value) return check.value;
 
-    if (response.text) {
-      const parsed = JSON.parse(response.text);
-      return {
-        dimensions: parsed.dimensions || [],
-        units: parsed.units || "unknown",
-        markdown_table: parsed.markdown_table || "",
-        raw_text: parsed.raw_text || ""
-      };
-    } else {
-      throw new Error("No response from Gemini.");
+      errors = check.errors;
+      console.warn(`Malformed AI response (attempt ${attempt + 1})`, errors);
+      request = buildRepairRequest(baseRequest, text, errors);
     }
+
+    throw new ResponseSchemaError(errors, MAX_REPAIR_ATTEMPTS + 1);
   } catch (error: any) {
-    console.error("Gemini API Error:", error);
+    console.error("Vision Provider Error:", error);
+    if (error instanceof ResponseSchemaError || error instanceof ProviderError) throw error;
     throw new Error(error.message || "Error analyzing content.");
   }
 };
+
+// Crops of a tiled drawing overlap, so a value read in two neighbouring crops is one dimension.
+// Per label and value the merge keeps the highest count any single crop saw, and drops unlabeled
+// copies of values that another crop managed to label.
+export const mergeResponses = (responses: GeminiResponse[]): GeminiResponse => {
+  if (responses.length === 1) return responses[0];
+
+  const counts = new Map<string, { measurement: Measurement; count: number }>();
+  responses.forEach(response => {
+    const local = new Map<string, number>();
+    response.measurements.forEach(measurement => {
+      const key = `${measurement.label || ''}:${measurement.value}`;
+      const count = (local.get(key) || 0) + 1;
+      local.set(key, count);
+      const entry = counts.get(key);
+      if (entry) entry.count = Math.max(entry.count, count);
+      else counts.set(key, { measurement, count });
+    });
+  });
+
+  const labeled = new Map<number, number>();
+  counts.forEach(({ measurement, count }) => {
+    if (measurement.label) labeled.set(measurement.value, (labeled.get(measurement.value) || 0) + count);
+  });
+
+  const measurements: Measurement[] = [];
+  counts.forEach(({ measurement, count }) => {
+    const kept = measurement.label ? count : count - (labeled.get(measurement.value) || 0);
+    for (let i = 0; i < kept; i++) measurements.push(measurement);
+  });
+
+  // Crops that found nothing often answer "unknown"; the unit most crops agree on wins
+  const unitVotes = new Map<string, number>();
+  responses.forEach(r => {
+    if (r.units && r.units.toLowerCase() !== 'unknown') unitVotes.set(r.units, (unitVotes.get(r.units) || 0) + 1);
+  });
+  const units = Array.from(unitVotes.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] || responses[0].units;
+
+  return {
+    dimensions: measurements.map(m => m.value),
+    measurements,
+    units,
+    markdown_table: responses
+      .map((r, i) => `**Tile ${i + 1} of ${responses.length}**\n\n${r.markdown_table}`)
+      .join('\n\n'),
+    raw_text: responses.map((r, i) => `[Tile ${i + 1}] ${r.raw_text}`).join(' '),
+  };
+};
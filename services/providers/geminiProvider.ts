@@ -0,0 +1,58 @@
+import { GoogleGenAI } from "@google/genai";
+import { VisionProvider } from "../../types";
+import { ProviderError, parseRetryDelayMessage } from "./providerError";
+
+// One client per API key, created on first use instead of at module load
+const clients = new Map<string, GoogleGenAI>();
+
+const getClient = (apiKey?: string): GoogleGenAI => {
+  const key = apiKey || process.env.API_KEY || '';
+  let client = clients.get(key);
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: key });
+    clients.set(key, client);
+  }
+  return client;
+};
+
+export const geminiProvider: VisionProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaultModel: 'gemini-3-flash-preview',
+
+  generate: async (request, settings, signal) => {
+    const parts: any[] = [];
+    if (request.image) {
+      parts.push({
+        inlineData: {
+          data: request.image.data,
+          mimeType: request.image.mimeType,
+        },
+      });
+    }
+    parts.push({ text: request.prompt });
+
+    let response;
+    try {
+      response = await getClient(settings.apiKey).models.generateContent({
+        model: settings.model || geminiProvider.defaultModel,
+        contents: { parts },
+        config: {
+          responseMimeType: "application/json",
+          abortSignal: signal,
+          ...(request.responseSchema ? { responseJsonSchema: request.responseSchema } : {})
+        }
+      });
+    } catch (error: any) {
+      if (signal?.aborted) throw error;
+      // The SDK's ApiError carries the HTTP status; keep it for the scheduler
+      const message = error?.message || 'Gemini request failed.';
+      throw new ProviderError(message, typeof error?.status === 'number' ? error.status : undefined, parseRetryDelayMessage(message));
+    }
+
+    if (!response.text) {
+      throw new Error("No response from Gemini.");
+    }
+    return response.text;
+  }
+};
@@ -0,0 +1,24 @@
+import { ProviderId, ProviderSettings, VisionProvider } from "../../types";
+import { geminiProvider } from "./geminiProvider";
+import { openAiProvider } from "./openAiProvider";
+import { mockProvider } from "./mockProvider";
+
+export const PROVIDERS: Record<ProviderId, VisionProvider> = {
+  gemini: geminiProvider,
+  openai: openAiProvider,
+  mock: mockProvider,
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: 'gemini',
+  model: geminiProvider.defaultModel,
+  useCache: true,
+};
+
+export const getProvider = (id: ProviderId): VisionProvider => {
+  const provider = PROVIDERS[id];
+  if (!provider) {
+    throw new Error(`Unknown vision provider: ${id}`);
+  }
+  return provider;
+};
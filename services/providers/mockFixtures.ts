@@ -0,0 +1,47 @@
+import { GeminiResponse } from "../../types";
+
+// Canned extraction results for the mock provider, keyed by image file name.
+// Add entries here to reproduce a specific batch flow without calling a real model.
+export const MOCK_FIXTURES: Record<string, GeminiResponse> = {
+  'mardi-marble-side-table.jpg': {
+    measurements: [
+      { label: 'diameter', value: 18 },
+      { label: 'height', value: 22 },
+    ],
+    dimensions: [18, 22],
+    units: 'inches',
+    markdown_table: '| Label | Value |\n| --- | --- |\n| Diameter | 18 in |\n| Height | 22 in |',
+    raw_text: 'Round side table drawing with diameter and height callouts.',
+  },
+  'dining-table-cm.png': {
+    measurements: [
+      { label: 'width', value: 200 },
+      { label: 'depth', value: 100 },
+      { label: 'height', value: 76 },
+    ],
+    dimensions: [200, 100, 76],
+    units: 'cm',
+    markdown_table: '| Label | Value |\n| --- | --- |\n| Width | 200 cm |\n| Depth | 100 cm |\n| Height | 76 cm |',
+    raw_text: 'Dining table elevation labelled in centimetres.',
+  },
+  'lounge-chair.jpg': {
+    measurements: [
+      { label: 'width', value: 32 },
+      { label: 'depth', value: 34 },
+      { label: 'height', value: 30 },
+      { label: 'seat_height', value: 17 },
+      { label: 'arm_height', value: 24 },
+    ],
+    dimensions: [32, 34, 30, 17, 24],
+    units: 'inches',
+    markdown_table: '| Label | Value |\n| --- | --- |\n| Width | 32 in |\n| Depth | 34 in |\n| Height | 30 in |\n| Seat Height | 17 in |\n| Arm Height | 24 in |',
+    raw_text: 'Lounge chair front and side views.',
+  },
+  'blank-render.png': {
+    measurements: [],
+    dimensions: [],
+    units: 'unknown',
+    markdown_table: '',
+    raw_text: 'No dimension callouts visible.',
+  },
+};
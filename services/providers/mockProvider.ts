@@ -0,0 +1,59 @@
+import { GeminiResponse, VisionProvider } from "../../types";
+import { MOCK_FIXTURES } from "./mockFixtures";
+
+const MOCK_LATENCY_MS = 150;
+
+// FNV-1a, so the same file name always yields the same fallback numbers
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const findFixture = (fileName?: string): GeminiResponse | undefined => {
+  if (!fileName) return undefined;
+  if (MOCK_FIXTURES[fileName]) return MOCK_FIXTURES[fileName];
+  const lower = fileName.toLowerCase();
+  const key = Object.keys(MOCK_FIXTURES).find(k => k.toLowerCase() === lower);
+  return key ? MOCK_FIXTURES[key] : undefined;
+};
+
+// Unknown files still get a stable width/depth/height triple derived from the name
+const buildFallback = (fileName = 'unnamed'): GeminiResponse => {
+  const hash = hashString(fileName);
+  const width = 12 + (hash % 60);
+  const depth = 12 + ((hash >>> 8) % 40);
+  const height = 12 + ((hash >>> 16) % 30);
+  return {
+    measurements: [
+      { label: 'width', value: width },
+      { label: 'depth', value: depth },
+      { label: 'height', value: height },
+    ],
+    dimensions: [width, depth, height],
+    units: 'inches',
+    markdown_table: `| Label | Value |\n| --- | --- |\n| Width | ${width} in |\n| Depth | ${depth} in |\n| Height | ${height} in |`,
+    raw_text: `Mock extraction for ${fileName} (no fixture found).`,
+  };
+};
+
+export const mockProvider: VisionProvider = {
+  id: 'mock',
+  label: 'Mock (offline fixtures)',
+  defaultModel: 'fixtures',
+
+  generate: async (request, _settings, signal) => {
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, MOCK_LATENCY_MS);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new DOMException('Aborted', 'AbortError'));
+      }, { once: true });
+    });
+    const response = findFixture(request.fileName) || buildFallback(request.fileName);
+    return JSON.stringify(response);
+  }
+};
@@ -0,0 +1,57 @@
+import { VisionProvider } from "../../types";
+import { ProviderError, parseRetryAfterHeader } from "./providerError";
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
+// Works with any server that implements the OpenAI Chat Completions API
+// (OpenAI itself, Ollama, LM Studio, vLLM, llama.cpp server, ...).
+export const openAiProvider: VisionProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  defaultModel: 'gpt-4o-mini',
+
+  generate: async (request, settings, signal) => {
+    const baseUrl = (settings.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+    const content: any[] = [{ type: 'text', text: request.prompt }];
+    if (request.image) {
+      content.push({
+        type: 'image_url',
+        image_url: { url: `data:${request.image.mimeType};base64,${request.image.data}` },
+      });
+    }
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: settings.model || openAiProvider.defaultModel,
+        messages: [{ role: 'user', content }],
+        response_format: request.responseSchema
+          ? { type: 'json_schema', json_schema: { name: 'dimension_extraction', schema: request.responseSchema } }
+          : { type: 'json_object' },
+        temperature: 0,
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new ProviderError(
+        `OpenAI-compatible endpoint returned ${response.status}: ${body.slice(0, 200)}`,
+        response.status,
+        parseRetryAfterHeader(response.headers.get('retry-after'))
+      );
+    }
+
+    const data = await response.json();
+    const text = data?.choices?.[0]?.message?.content;
+    if (!text) {
+      throw new Error("No response from OpenAI-compatible endpoint.");
+    }
+    return text;
+  }
+};
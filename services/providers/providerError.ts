@@ -0,0 +1,30 @@
+// Error raised by providers when the backend answers with an HTTP failure.
+// Keeps the status and any retry hint so the scheduler can decide whether to back off.
+export class ProviderError extends Error {
+  status?: number;
+  retryAfterMs?: number;
+
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Retry-After header: either delta-seconds or an HTTP date
+export const parseRetryAfterHeader = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Gemini reports its hint inside the error body, e.g. "retryDelay": "23s"
+export const parseRetryDelayMessage = (message: string): number | undefined => {
+  const match = message.match(/retry(?:Delay| in)["\s:]*"?(\d+(?:\.\d+)?)\s*(ms|s)/i);
+  if (!match) return undefined;
+  const amount = Number(match[1]);
+  return match[2].toLowerCase() === 'ms' ? amount : amount * 1000;
+};
@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BatchConfig } from '../types';
+import { ProviderError } from './providers/providerError';
+import { createRequestScheduler, ThrottledError } from './requestScheduler';
+
+const config = (overrides: Partial<BatchConfig> = {}): BatchConfig => ({
+  requestsPerMinute: 60,
+  maxRetries: 3,
+  concurrency: 3,
+  ...overrides,
+});
+
+// Fails with each error in turn, then answers 'ok'
+const failing = (...errors: any[]) => vi.fn(async () => {
+  const error = errors.shift();
+  if (error) throw error;
+  return 'ok';
+});
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(0);
+  // No jitter: every backoff is half of base * 2^attempt
+  vi.spyOn(Math, 'random').mockReturnValue(0);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('rate limit', () => {
+  it('holds calls beyond the per-minute budget until the oldest leaves the window', async () => {
+    const scheduler = createRequestScheduler(config({ requestsPerMinute: 2 }));
+    const started: number[] = [];
+    const task = async () => { started.push(Date.now()); };
+
+    const runs = [scheduler.schedule(task), scheduler.schedule(task), scheduler.schedule(task)];
+    await vi.advanceTimersByTimeAsync(59_000);
+    expect(started).toEqual([0, 0]);
+
+    await vi.advanceTimersByTimeAsync(1_100);
+    await Promise.all(runs);
+    expect(started).toHaveLength(3);
+    expect(started[2]).toBeGreaterThanOrEqual(60_000);
+  });
+
+  it('counts extra slots taken with acquire against the same budget', async () => {
+    const scheduler = createRequestScheduler(config({ requestsPerMinute: 1 }));
+    await scheduler.acquire();
+    const task = vi.fn(async () => 'ok');
+    const run = scheduler.schedule(task);
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(task).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(31_000);
+    await expect(run).resolves.toBe('ok');
+  });
+
+  it('rejects queued callers as soon as the signal aborts', async () => {
+    const scheduler = createRequestScheduler(config({ requestsPerMinute: 1 }));
+    const controller = new AbortController();
+    await scheduler.acquire();
+    const task = vi.fn(async () => 'ok');
+    const run = scheduler.schedule(task, { signal: controller.signal });
+    const rejected = expect(run).rejects.toThrow('Aborted');
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    controller.abort();
+    await rejected;
+    expect(task).not.toHaveBeenCalled();
+  });
+});
+
+describe('retries', () => {
+  it('waits for the provider\'s retry-after hint', async () => {
+    const scheduler = createRequestScheduler(config());
+    const onRetry = vi.fn();
+    const task = failing(new ProviderError('Too many requests', 429, 5_000));
+    const run = scheduler.schedule(task, { onRetry });
+
+    await vi.advanceTimersByTimeAsync(4_999);
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(onRetry).toHaveBeenCalledWith(1, 5_000, expect.any(ProviderError));
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(run).resolves.toBe('ok');
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('backs off exponentially on server errors without a hint', async () => {
+    const scheduler = createRequestScheduler(config());
+    const onRetry = vi.fn();
+    const task = failing(new ProviderError('Unavailable', 503), new ProviderError('Unavailable', 503));
+    const run = scheduler.schedule(task, { onRetry });
+
+    await vi.advanceTimersByTimeAsync(3_000);
+    await expect(run).resolves.toBe('ok');
+    expect(onRetry.mock.calls.map(([attempt, delay]) => [attempt, delay])).toEqual([[1, 1_000], [2, 2_000]]);
+  });
+
+  it('recognises rate limits and outages from the message when there is no status', async () => {
+    const scheduler = createRequestScheduler(config());
+    const onRetry = vi.fn();
+    const task = failing(new Error('RESOURCE_EXHAUSTED: quota'), new TypeError('Failed to fetch'));
+    const run = scheduler.schedule(task, { onRetry });
+
+    await vi.advanceTimersByTimeAsync(3_000);
+    await expect(run).resolves.toBe('ok');
+    expect(onRetry).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry other failures', async () => {
+    const scheduler = createRequestScheduler(config());
+    const task = failing(new ProviderError('Bad request', 400));
+    await expect(scheduler.schedule(task)).rejects.toThrow('Bad request');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('raises ThrottledError once rate-limit retries run out, so the item is re-queued', async () => {
+    const scheduler = createRequestScheduler(config({ maxRetries: 2 }));
+    const limited = () => new ProviderError('Too many requests', 429, 1_000);
+    const task = failing(limited(), limited(), limited(), limited());
+    const rejected = expect(scheduler.schedule(task)).rejects.toBeInstanceOf(ThrottledError);
+
+    await vi.advanceTimersByTimeAsync(2_000);
+    await rejected;
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('passes the last server error through once retries run out', async () => {
+    const scheduler = createRequestScheduler(config({ maxRetries: 1 }));
+    const task = failing(new ProviderError('Unavailable', 503), new ProviderError('Still unavailable', 503));
+    const rejected = expect(scheduler.schedule(task)).rejects.toThrow('Still unavailable');
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    await rejected;
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops a backoff wait when the signal aborts', async () => {
+    const scheduler = createRequestScheduler(config());
+    const controller = new AbortController();
+    const task = failing(new ProviderError('Unavailable', 503));
+    const rejected = expect(scheduler.schedule(task, { signal: controller.signal })).rejects.toThrow('Aborted');
+
+    await vi.advanceTimersByTimeAsync(500);
+    controller.abort();
+    await rejected;
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
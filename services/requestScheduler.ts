@@ -0,0 +1,126 @@
+import { BatchConfig } from "../types";
+import { ProviderError } from "./providers/providerError";
+
+const WINDOW_MS = 60_000;
+const BASE_DELAY_MS = 2_000;
+const MAX_DELAY_MS = 60_000;
+
+export const DEFAULT_BATCH_CONFIG: BatchConfig = {
+  requestsPerMinute: 15,
+  maxRetries: 5,
+  concurrency: 3,
+};
+
+// Raised when a call kept being rate-limited until its retries ran out.
+// The caller should re-queue the item rather than treat it as a failure.
+export class ThrottledError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ThrottledError';
+  }
+}
+
+type FailureKind = 'throttled' | 'transient' | 'fatal';
+
+const classifyError = (error: any): FailureKind => {
+  const status = error instanceof ProviderError ? error.status : error?.status;
+  const message = String(error?.message || '');
+  if (status === 429 || /RESOURCE_EXHAUSTED|rate.?limit|quota/i.test(message)) return 'throttled';
+  if ((status && status >= 500) || /UNAVAILABLE|overloaded|failed to fetch|network/i.test(message)) return 'transient';
+  return 'fatal';
+};
+
+// Exponential backoff with jitter: base * 2^attempt, scaled by a random factor in [0.5, 1)
+const backoffDelay = (attempt: number): number => {
+  const exp = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * Math.pow(2, attempt));
+  return Math.round(exp * (0.5 + Math.random() * 0.5));
+};
+
+const abortError = () => new DOMException('Aborted', 'AbortError');
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export interface ScheduleHooks {
+  onRetry?: (attempt: number, delayMs: number, error: any) => void;
+  signal?: AbortSignal; // Aborts backoff waits as well as the task itself
+}
+
+export interface RequestScheduler {
+  schedule: <T>(task: (signal?: AbortSignal) => Promise<T>, hooks?: ScheduleHooks) => Promise<T>;
+  // One more slot in the budget, for extra calls a scheduled task makes itself (repair attempts)
+  acquire: (signal?: AbortSignal) => Promise<void>;
+}
+
+// Shared by every call of a batch run so the per-minute budget is global, not per item.
+export const createRequestScheduler = (config: BatchConfig): RequestScheduler => {
+  const sent: number[] = [];
+  // Slot acquisition is chained so concurrent callers queue in order
+  let gate: Promise<void> = Promise.resolve();
+
+  const waitForSlot = async (signal?: AbortSignal) => {
+    const limit = Math.max(1, config.requestsPerMinute);
+    for (;;) {
+      if (signal?.aborted) throw abortError();
+      const now = Date.now();
+      while (sent.length > 0 && now - sent[0] >= WINDOW_MS) sent.shift();
+      if (sent.length < limit) {
+        sent.push(now);
+        return;
+      }
+      await sleep(WINDOW_MS - (now - sent[0]) + 10, signal);
+    }
+  };
+
+  // An abort rejects a queued caller at once instead of when its turn comes; its turn then
+  // passes without taking a slot, so Cancel doesn't leave the queue sleeping through the window
+  const acquire = (signal?: AbortSignal): Promise<void> => {
+    const next = gate.then(() => waitForSlot(signal));
+    gate = next.catch(() => undefined);
+    if (!signal) return next;
+    return new Promise<void>((resolve, reject) => {
+      if (signal.aborted) return reject(abortError());
+      const onAbort = () => reject(abortError());
+      signal.addEventListener('abort', onAbort, { once: true });
+      next.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  };
+
+  const schedule = async <T>(task: (signal?: AbortSignal) => Promise<T>, hooks?: ScheduleHooks): Promise<T> => {
+    const signal = hooks?.signal;
+    for (let attempt = 0; ; attempt++) {
+      await acquire(signal);
+      try {
+        return await task(signal);
+      } catch (error: any) {
+        if (signal?.aborted) throw error;
+        const kind = classifyError(error);
+        if (kind === 'fatal') throw error;
+
+        if (attempt >= config.maxRetries) {
+          if (kind === 'throttled') {
+            throw new ThrottledError(`Rate limited after ${attempt + 1} attempts: ${error.message}`);
+          }
+          throw error;
+        }
+
+        const hinted = error instanceof ProviderError ? error.retryAfterMs : undefined;
+        const delay = hinted !== undefined ? hinted : backoffDelay(attempt);
+        hooks?.onRetry?.(attempt + 1, delay, error);
+        await sleep(delay, signal);
+      }
+    }
+  };
+
+  return { schedule, acquire };
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { checkResponse, parseResponseText } from './responseSchema';
+
+const response = (fields: Record<string, any>) => ({
+  measurements: [],
+  units: 'inches',
+  markdown_table: '',
+  raw_text: '',
+  ...fields,
+});
+
+describe('checkResponse', () => {
+  it('keeps well-formed answers and normalises labels', () => {
+    const check = checkResponse(response({ measurements: [{ label: 'Width', value: 24 }, { label: 'unknown', value: 18 }], dimensions: [24, 18] }));
+    expect(check.errors).toEqual([]);
+    expect(check.value?.measurements).toEqual([{ value: 24, label: 'width' }, { value: 18 }]);
+  });
+
+  it.each([
+    ['24.5 in', 24.5],
+    ['24 1/2', 24.5],
+    [`5'6"`, 66],
+  ])('coerces the string %j', (value, expected) => {
+    expect(checkResponse(response({ measurements: [{ label: 'height', value }] })).value?.measurements).toEqual([{ value: expected, label: 'height' }]);
+  });
+
+  it.each([
+    [{ value: '24-26' }, 'measurements[0].value: expected a single number, got the range "24-26"'],
+    [{ value: '24 x 18' }, 'measurements[0].value: expected a single number, got "24 x 18"'],
+    [{ value: 0 }, 'measurements[0].value: expected a positive dimension, got 0'],
+    [{ value: '-3' }, 'measurements[0].value: expected a positive dimension, got -3'],
+    [{ value: null }, 'measurements[0].value: expected a number, got null'],
+    [{ value: '1,200' }, 'measurements[0].value: expected a number, got "1,200"'],
+  ])('rejects %j', (measurement, error) => {
+    expect(checkResponse(response({ measurements: [{ label: 'width', ...measurement }] })).errors).toEqual([error]);
+  });
+
+  it('accepts several values in one dimensions entry', () => {
+    expect(checkResponse(response({ dimensions: ['24 x 18'] })).value?.dimensions).toEqual([24, 18]);
+  });
+
+  it('reads strings with an explicit number locale', () => {
+    expect(checkResponse(response({ dimensions: ['1,200'] }), 'dot').value?.dimensions).toEqual([1200]);
+    expect(checkResponse(response({ dimensions: ['45,5'] }), 'comma').value?.dimensions).toEqual([45.5]);
+  });
+
+  it('fills whichever of measurements and dimensions is missing', () => {
+    expect(checkResponse(response({ measurements: [{ label: 'width', value: 24 }] })).value?.dimensions).toEqual([24]);
+    expect(checkResponse(response({ measurements: undefined, dimensions: [18] })).value?.measurements).toEqual([{ value: 18 }]);
+  });
+
+  it('requires an object with at least one list of values', () => {
+    expect(checkResponse([]).errors).toEqual(['response: expected a JSON object, got array']);
+    expect(checkResponse({ units: 'cm' }).errors).toEqual(['measurements: missing required field']);
+  });
+});
+
+describe('parseResponseText', () => {
+  it('strips code fences and reports invalid JSON as an error', () => {
+    expect(parseResponseText('```json\n{"dimensions": [24]}\n```').value?.dimensions).toEqual([24]);
+    expect(parseResponseText('not json').errors[0]).toMatch(/^response: invalid JSON/);
+  });
+});
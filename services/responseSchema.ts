@@ -0,0 +1,175 @@
+import { DimensionLabel, GeminiResponse, Measurement, NumberLocale } from "../types";
+import { normalizeDimensionLabel } from "../utils/validation";
+import { parseDimensionText } from "../utils/dimensionParser";
+
+const LABELS: (DimensionLabel | 'unknown')[] = [
+  'width', 'depth', 'height', 'length', 'diameter', 'seat_height', 'arm_height', 'thickness', 'unknown'
+];
+
+// JSON Schema sent with every request so providers that support structured output
+// constrain the model before we ever see the text.
+export const RESPONSE_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    measurements: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          label: { type: 'string', enum: LABELS },
+          value: { type: 'number' },
+        },
+        required: ['label', 'value'],
+      },
+    },
+    dimensions: { type: 'array', items: { type: 'number' } },
+    units: { type: 'string' },
+    markdown_table: { type: 'string' },
+    raw_text: { type: 'string' },
+  },
+  required: ['measurements', 'dimensions', 'units', 'markdown_table', 'raw_text'],
+};
+
+export class ResponseSchemaError extends Error {
+  errors: string[];
+
+  constructor(errors: string[], attempts: number) {
+    super(`AI response failed schema validation after ${attempts} attempt${attempts > 1 ? 's' : ''}: ${errors.join('; ')}`);
+    this.name = 'ResponseSchemaError';
+    this.errors = errors;
+  }
+}
+
+export interface SchemaCheck {
+  value?: GeminiResponse;
+  errors: string[];
+}
+
+const describe = (value: any): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && isNaN(value)) return 'NaN';
+  if (typeof value === 'string') return `"${value.slice(0, 20)}"`;
+  return typeof value;
+};
+
+// Numbers pass through; strings go through the spec-cell parser, so "24.5 in", "24 1/2"
+// and 5'6" (66 inches) all coerce. Everything else (objects, arrays, NaN, Infinity,
+// non-positive values) is rejected. A string holding several values ("24 x 18") is
+// only accepted where a list is allowed. Ranges ("24-26") are rejected rather than cut to
+// their lower end, so the repair prompt asks for the value actually printed.
+const coerceDimensions = (value: any, path: string, errors: string[], allowMany: boolean, locale: NumberLocale): number[] => {
+  let nums: number[] = [];
+  if (typeof value === 'number') {
+    nums = [value];
+  } else if (typeof value === 'string') {
+    const parsed = parseDimensionText(value, locale);
+    const range = parsed.find(d => d.max !== undefined);
+    if (range) {
+      errors.push(`${path}: expected a single number, got the range ${describe(range.text)}`);
+      return [];
+    }
+    nums = parsed.map(d => d.value);
+    // The parser reads hyphens as separators; a leading minus is still a negative value
+    if (/^\s*-\s*[\d.]/.test(value) && nums.length > 0) nums[0] = -nums[0];
+  }
+
+  if (nums.length === 0 || nums.some(num => !isFinite(num))) {
+    errors.push(`${path}: expected a number, got ${describe(value)}`);
+    return [];
+  }
+  if (nums.length > 1 && !allowMany) {
+    errors.push(`${path}: expected a single number, got ${describe(value)}`);
+    return [];
+  }
+  const nonPositive = nums.find(num => num <= 0);
+  if (nonPositive !== undefined) {
+    errors.push(`${path}: expected a positive dimension, got ${nonPositive}`);
+    return [];
+  }
+  return nums;
+};
+
+const coerceString = (value: any, path: string, errors: string[], fallback: string): string => {
+  if (value === undefined || value === null) return fallback;
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  errors.push(`${path}: expected a string, got ${describe(value)}`);
+  return fallback;
+};
+
+// String values are read with the given number locale; 'auto' rejects "1,200"-style values
+// so the repair prompt asks for a plain number instead of us guessing.
+export const checkResponse = (raw: unknown, locale: NumberLocale = 'auto'): SchemaCheck => {
+  const errors: string[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { errors: [`response: expected a JSON object, got ${describe(raw)}`] };
+  }
+  const parsed = raw as Record<string, any>;
+
+  // measurements
+  const measurements: Measurement[] = [];
+  if (parsed.measurements !== undefined) {
+    if (!Array.isArray(parsed.measurements)) {
+      errors.push(`measurements: expected an array, got ${describe(parsed.measurements)}`);
+    } else {
+      parsed.measurements.forEach((m: any, i: number) => {
+        if (!m || typeof m !== 'object' || Array.isArray(m)) {
+          errors.push(`measurements[${i}]: expected an object, got ${describe(m)}`);
+          return;
+        }
+        const [value] = coerceDimensions(m.value, `measurements[${i}].value`, errors, false, locale);
+        if (value === undefined) return;
+        const label = normalizeDimensionLabel(m.label);
+        measurements.push(label ? { value, label } : { value });
+      });
+    }
+  }
+
+  // dimensions
+  let dimensions: number[] = [];
+  if (parsed.dimensions !== undefined) {
+    if (!Array.isArray(parsed.dimensions)) {
+      errors.push(`dimensions: expected an array, got ${describe(parsed.dimensions)}`);
+    } else {
+      parsed.dimensions.forEach((d: any, i: number) => {
+        dimensions.push(...coerceDimensions(d, `dimensions[${i}]`, errors, true, locale));
+      });
+    }
+  }
+
+  if (parsed.measurements === undefined && parsed.dimensions === undefined) {
+    errors.push('measurements: missing required field');
+  }
+
+  // Keep the two lists consistent when the model only filled one of them
+  if (dimensions.length === 0 && measurements.length > 0) {
+    dimensions = measurements.map(m => m.value);
+  }
+  const finalMeasurements = measurements.length > 0 ? measurements : dimensions.map(value => ({ value }));
+
+  const units = coerceString(parsed.units, 'units', errors, 'unknown') || 'unknown';
+  const markdown_table = coerceString(parsed.markdown_table, 'markdown_table', errors, '');
+  const raw_text = coerceString(parsed.raw_text, 'raw_text', errors, '');
+
+  if (errors.length > 0) return { errors };
+
+  return {
+    value: { dimensions, measurements: finalMeasurements, units, markdown_table, raw_text },
+    errors: [],
+  };
+};
+
+// Parses provider text; JSON syntax errors are reported like schema errors so they can be repaired
+export const parseResponseText = (text: string, locale?: NumberLocale): SchemaCheck => {
+  // Some local models wrap JSON in ```json fences despite instructions
+  const cleaned = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let raw: unknown;
+  try {
+    raw = JSON.parse(cleaned);
+  } catch (err: any) {
+    return { errors: [`response: invalid JSON (${err.message})`] };
+  }
+  return checkResponse(raw, locale);
+};
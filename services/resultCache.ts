@@ -0,0 +1,85 @@
+import { GeminiResponse, NumberLocale, ProviderSettings } from "../types";
+import { CACHE_STORE, withStore } from "./db";
+import { PROMPT_VERSION } from "./geminiService";
+import { DEFAULT_UPLOAD_CONFIG } from "../utils/imagePreprocess";
+
+interface CacheEntry {
+  key: string;
+  response: GeminiResponse;
+  createdAt: number;
+}
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+// SHA-256 of the image bytes; identical files under different names share one entry
+export const hashContent = async (data: Blob | ArrayBuffer): Promise<string> => {
+  const buffer = data instanceof Blob ? await data.arrayBuffer() : data;
+  return toHex(await crypto.subtle.digest('SHA-256', buffer));
+};
+
+// Base64 payloads (single mode) are decoded so they hash the same as the original file
+export const hashBase64 = (base64: string): Promise<string> => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return hashContent(bytes.buffer);
+};
+
+// A prompt or model change invalidates old results without having to clear the cache.
+// So do the upload settings, defaults included, since they decide the pixels the model sees,
+// and the number locale, since it decides how string values in the answer are read.
+export const buildCacheKey = (contentHash: string, settings: ProviderSettings, numberLocale?: NumberLocale): string => {
+  const parts = [contentHash, PROMPT_VERSION, settings.provider, settings.model];
+  const upload = settings.upload || DEFAULT_UPLOAD_CONFIG;
+  parts.push(`${upload.maxEdge}-${upload.format}-${upload.quality}${upload.tiling ? `-tiled-${upload.tileAspect}-${upload.tileOverlap}` : ''}`);
+  if (numberLocale && numberLocale !== 'auto') parts.push(`locale-${numberLocale}`);
+  return parts.join(':');
+};
+
+export const getCachedResponse = async (key: string): Promise<GeminiResponse | undefined> => {
+  try {
+    const entry = await withStore<CacheEntry | undefined>(CACHE_STORE, 'readonly', store => store.get(key));
+    return entry?.response;
+  } catch (err) {
+    console.warn("Extraction cache read failed", err);
+    return undefined;
+  }
+};
+
+export const putCachedResponse = async (key: string, response: GeminiResponse): Promise<void> => {
+  try {
+    const entry: CacheEntry = { key, response, createdAt: Date.now() };
+    await withStore(CACHE_STORE, 'readwrite', store => store.put(entry));
+  } catch (err) {
+    console.warn("Extraction cache write failed", err);
+  }
+};
+
+export const countCachedResponses = (): Promise<number> =>
+  withStore<number>(CACHE_STORE, 'readonly', store => store.count());
+
+export const clearResultCache = async (): Promise<void> => {
+  await withStore(CACHE_STORE, 'readwrite', store => store.clear());
+};
+
+// Looks up the cache before running `analyze`, and stores fresh results afterwards.
+// With useCache off the cache is neither read nor written.
+export const withResultCache = async (
+  contentHash: string,
+  settings: ProviderSettings,
+  analyze: () => Promise<GeminiResponse>,
+  numberLocale?: NumberLocale
+): Promise<{ response: GeminiResponse; cached: boolean }> => {
+  if (settings.useCache === false) {
+    return { response: await analyze(), cached: false };
+  }
+
+  const key = buildCacheKey(contentHash, settings, numberLocale);
+  const hit = await getCachedResponse(key);
+  if (hit) return { response: hit, cached: true };
+
+  const response = await analyze();
+  await putCachedResponse(key, response);
+  return { response, cached: false };
+};
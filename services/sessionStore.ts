@@ -0,0 +1,70 @@
+import { BatchItem, BatchSession, BatchSessionSummary, SourcePage, StoredBatchItem } from "../types";
+import { SESSION_STORE, withStore } from "./db";
+
+const MAX_SESSIONS = 20;
+
+export const createSessionId = (): string =>
+  `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// File objects are not kept: browsers don't give us durable handles from a folder input,
+// and storing every image would fill the origin quota on large catalogues.
+export const toStoredItem = ({ file, fileMissing, ...rest }: BatchItem): StoredBatchItem => ({
+  ...rest,
+  // An interrupted call can't be resumed, so in-flight items go back to the queue
+  status: rest.status === 'PROCESSING' ? 'PENDING' : rest.status,
+  fileName: file.name,
+  fileSize: file.size,
+  fileType: file.type,
+  lastModified: file.lastModified,
+});
+
+// Restored items get an empty placeholder File until the user re-attaches the folder
+export const fromStoredItem = ({ fileName, fileSize, fileType, lastModified, ...rest }: StoredBatchItem): BatchItem => ({
+  ...rest,
+  file: new File([], fileName, { type: fileType, lastModified }),
+  fileMissing: true,
+});
+
+// Pair restored items with newly selected files (PDF and TIFF pages already rendered) by name
+// and page; the placeholder keeps the original lastModified, which disambiguates same-named
+// files from different subfolders
+export const reattachFiles = (items: BatchItem[], pages: SourcePage[]): BatchItem[] => {
+  const byName = new Map<string, SourcePage[]>();
+  pages.forEach(p => byName.set(p.file.name, [...(byName.get(p.file.name) || []), p]));
+
+  return items.map(item => {
+    if (!item.fileMissing) return item;
+    const candidates = (byName.get(item.file.name) || []).filter(p => p.page === item.page);
+    if (candidates.length === 0) return item;
+    const { file, sourceInfo } = candidates.find(p => p.file.lastModified === item.file.lastModified) || candidates[0];
+    return { ...item, file, sourceInfo, fileMissing: false };
+  });
+};
+
+export const saveSession = async (session: BatchSession): Promise<void> => {
+  await withStore(SESSION_STORE, 'readwrite', store => store.put(session));
+};
+
+export const loadSession = (id: string): Promise<BatchSession | undefined> =>
+  withStore<BatchSession | undefined>(SESSION_STORE, 'readonly', store => store.get(id));
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await withStore(SESSION_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const listSessions = async (): Promise<BatchSessionSummary[]> => {
+  const sessions = await withStore<BatchSession[]>(SESSION_STORE, 'readonly', store => store.getAll());
+  const sorted = sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+
+  // Keep storage bounded: drop the oldest runs beyond the limit
+  await Promise.all(sorted.slice(MAX_SESSIONS).map(s => deleteSession(s.id)));
+
+  return sorted.slice(0, MAX_SESSIONS).map(s => ({
+    id: s.id,
+    name: s.name,
+    createdAt: s.createdAt,
+    updatedAt: s.updatedAt,
+    total: s.items.length,
+    completed: s.items.filter(i => i.status === 'COMPLETED').length,
+  }));
+};
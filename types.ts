@@ -11,53 +11,409 @@ export interface AnalysisInput {
   content: string; // Base64
   mimeType: string;
   fileName?: string;
+  numberLocale?: NumberLocale; // How decimals in string values the AI returns are written
+  tile?: TilePosition;         // Set when the image is one crop of a tiled drawing
+}
+
+export type DimensionLabel =
+  | 'width'
+  | 'depth'
+  | 'height'
+  | 'length'
+  | 'diameter'
+  | 'seat_height'
+  | 'arm_height'
+  | 'thickness';
+
+export interface Measurement {
+  value: number;
+  label?: DimensionLabel; // Omitted when the drawing gives no axis for the value
 }
 
 export interface GeminiResponse {
-  dimensions: number[];
+  dimensions: number[]; // Flat list of every value, kept for display and unlabeled matching
+  measurements: Measurement[];
   units: string;
   markdown_table: string;
   raw_text: string;
 }
 
+// Decimal separator used in spec cells and AI values: 45.5 ('dot') or 45,5 ('comma').
+// 'auto' decides from the data and refuses to guess values like "1,200".
+export type NumberLocale = 'auto' | 'dot' | 'comma';
+
+export type DimensionUnit = 'in' | 'cm' | 'mm';
+
+export type ToleranceMode = 'absolute' | 'percent';
+
+export interface ToleranceRule {
+  mode: ToleranceMode;
+  value: number; // Absolute amount in the spec unit, or a percentage of the expected value
+}
+
+export type ToleranceSource = 'row' | 'column' | 'global' | 'default';
+
+export interface AppliedTolerance extends ToleranceRule {
+  source: ToleranceSource;
+  allowed: number; // Resolved absolute allowance for this expected value
+}
+
+export interface SpecDimension {
+  value: number;
+  max?: number; // Set for ranges ("24-26", or Min/Max column pairs); value is then the lower end
+  column: string; // Excel column letter the value was read from
+  header: string; // Spec column header, e.g. "Seat Height (in)"
+  label?: DimensionLabel; // Axis inferred from the header
+}
+
 export interface SpecRow {
   productName: string;
   productSlug: string; // Pre-calculated normalized slug for matching
   size: string;
-  expectedDimensions: number[];
+  sku?: string; // From the SKU / item code column, when the sheet has one
+  expectedDimensions: number[]; // Range dimensions contribute their lower end
+  dimensions: SpecDimension[]; // Same values as expectedDimensions, with their source column
+  unit?: DimensionUnit; // Unit the expected dimensions are written in
+  tolerance?: ToleranceRule; // Row-level tolerance from the workbook's tolerance column
+  sheet?: string; // Workbook sheet the row was read from
+  rowNumber?: number; // 1-based sheet row, for pointing users back at the workbook
+  imageRules?: ImageRules; // From optional image requirement columns (min px, aspect ratio, ...)
   originalRow: any;
 }
 
+// --- Spec Lint ---
+export type SpecIssueSeverity = 'error' | 'warning';
+
+export type SpecIssueCheck =
+  | 'DUPLICATE_SLUG'   // Same product slug and size on more than one row
+  | 'SLUG_COLLISION'   // Different product names that normalise to the same slug
+  | 'SLUG_SUBSTRING'   // Slug contained in a longer slug, so both match the same files
+  | 'NO_DIMENSIONS'    // Row kept, but nothing to validate against
+  | 'MISSING_NAME'     // Row has dimension data but no product name, so it is dropped
+  | 'OUT_OF_BOUNDS'    // Number outside the plausible range, dropped from the row
+  | 'NON_NUMERIC'      // Text in a dimension cell that isn't a number or unit
+  | 'AMBIGUOUS_NUMBER'; // "1,200" / "1.200" with no number format to decide between 1.2 and 1200
+
+export interface SpecIssue {
+  check: SpecIssueCheck;
+  severity: SpecIssueSeverity;
+  message: string;
+  sheet?: string;
+  rowNumber?: number;
+  column?: string;
+  productName?: string;
+}
+
 export type ValidationStatus = 'PERFECT' | 'MISSING' | 'EXTRA' | 'MISMATCH' | 'NO_MATCH';
 
+export interface UnitConversion {
+  from: DimensionUnit; // Unit reported by the AI
+  to: DimensionUnit;   // Unit of the spec row
+  factor: number;
+}
+
 export interface ValidationResult {
   status: ValidationStatus;
   matchedRow?: SpecRow;
-  matches: { expected: number; detected: number; diff: number }[];
+  // detected values are expressed in the spec unit; original is the AI value before conversion
+  matches: {
+    expected: number;
+    expectedMax?: number; // Upper end when the spec is a range
+    detected: number;
+    diff: number;
+    original?: number;
+    tolerance: AppliedTolerance;
+    label?: DimensionLabel; // Set when the pair was made by axis label
+  }[];
+  // Same-axis pairs whose values fall outside tolerance, e.g. Height expected 30, found 31.5
+  mismatches: { label: DimensionLabel; expected: number; expectedMax?: number; detected: number; diff: number; tolerance: AppliedTolerance }[];
   missing: number[];
+  missingRanges?: { min: number; max: number }[]; // Range specs with no detected value, kept apart from missing
   extra: number[];
+  conversion?: UnitConversion;
+}
+
+// Explicit column roles chosen on the mapping screen (Excel letters)
+export interface ColumnMapping {
+  productCol?: string;
+  sizeCol?: string;
+  skuCol?: string;
+  dimensionCols: string[]; // Any columns, contiguous or not
 }
 
 export interface ValidationConfig {
   startCol: string; // e.g. "G"
   endCol: string;   // e.g. "M"
+  specUnit?: DimensionUnit; // Workbook-level unit, used when a row has no unit column
+  unitCol?: string;         // Optional column letter holding a per-row unit
+  tolerance?: ToleranceRule;                       // Global tolerance, defaults to ±0.5 absolute
+  columnTolerances?: Record<string, ToleranceRule>; // Overrides keyed by column letter
+  toleranceCol?: string;                           // Optional column letter holding a per-row tolerance
+  sheets?: string[];                               // Sheets to merge; defaults to the first sheet
+  headerRow?: number;                              // 1-based sheet row of the header; auto-detected when unset
+  dataStartRow?: number;                           // 1-based first data row; defaults to the row after the header
+  columnMapping?: ColumnMapping;                   // Overrides name/size detection and the start/end column range
+  matching?: MatchConfig;                          // Fallback filename strategies; exact slug matching always runs
+  filenameRules?: FilenameRules;                   // How to pull the product key out of a file name before matching
+  numberLocale?: NumberLocale;                     // Decimal separator in spec cells; auto-detected when unset
+  imageRules?: ImageRules;                         // Local checks on the image files; spec columns override per product
+}
+
+// --- Filename Rules ---
+
+export interface FilenameRules {
+  patterns: string[];      // Regexes tried in order; named groups: product, sku, size, view
+  stripPrefixes: string[]; // Literal text removed from the start of the file stem, e.g. "2024_SS_"
+  stripSuffixes: string[]; // Literal text removed from the end of the file stem, e.g. "_front", "_v3"
+}
+
+export interface FilenameKey {
+  stem: string;     // File name without extension, after prefixes and suffixes are stripped
+  product?: string; // Named groups from the first pattern that matched
+  sku?: string;
+  size?: string;
+  view?: string;
+  pattern?: number; // Index of the pattern that matched
+}
+
+// --- Filename Matching ---
+
+export type MatchStrategy = 'sku' | 'exact' | 'token' | 'fuzzy';
+
+export interface MatchConfig {
+  skuLookup: boolean;      // Match SKU / item codes found in the file name
+  tokenMatch: boolean;     // Word-set overlap, for reordered or partial names
+  tokenThreshold: number;  // 0–1 share of the product name's words found in the file name
+  fuzzyMatch: boolean;     // Edit distance, for typos
+  fuzzyThreshold: number;  // 0–1 similarity between the product slug and the closest part of the file name
+}
+
+export interface SpecMatchResult {
+  specs: SpecRow[];        // Every row that shares the winning product (size variants)
+  strategy: MatchStrategy;
+  score: number;           // 1 for exact and SKU matches
+  reason: string;          // e.g. "exact slug", "SKU 4411", "fuzzy 0.87"
+  key: FilenameKey;        // What the filename rules pulled out of the name
+}
+
+export interface SpecSheetPreview {
+  sheetName: string;
+  headerRowNumber: number; // 1-based sheet row
+  columns: { letter: string; header: string }[];
+  rows: { rowNumber: number; cells: string[] }[];
+}
+
+// --- Image Checks ---
+
+// tiff, pdf and heic describe uploads that are converted to PNG before analysis
+export type ImageFormat = 'png' | 'jpeg' | 'gif' | 'webp' | 'tiff' | 'pdf' | 'heic';
+
+export type ColorSpace = 'rgb' | 'grayscale' | 'cmyk' | 'indexed';
+
+// Read from the file header without decoding pixels
+export interface ImageInfo {
+  format: ImageFormat;
+  width: number;  // Pixels
+  height: number;
+  fileSize: number; // Bytes
+  colorSpace?: ColorSpace;
+  hasAlpha?: boolean;
+  dpi?: number; // From JFIF density or the PNG pHYs chunk, when the file records it
+}
+
+// Unset fields are not checked
+export interface ImageRules {
+  minWidth?: number;  // Pixels
+  minHeight?: number;
+  aspectRatio?: number;    // Width / height, e.g. 1 for square; matched to the nearest pixel
+  maxFileSizeKb?: number;
+  formats?: ImageFormat[];
+  colorSpaces?: ColorSpace[];
+}
+
+export type ImageCheckStatus = 'PASS' | 'FAIL' | 'UNREADABLE';
+
+export interface ImageCheckResult {
+  status: ImageCheckStatus;
+  failures: string[]; // e.g. "Width 800px is below 1200px"
+  rules: ImageRules;  // Global rules merged with the matched product's columns
+}
+
+// --- Quality Preflight ---
+
+export type QualityAction = 'off' | 'flag' | 'skip';
+
+export interface QualityConfig {
+  action: QualityAction;  // 'skip' keeps low-quality images away from the AI
+  minSharpness: number;   // Variance of the Laplacian on the luminance channel
+  minContrast: number;    // 0–1, standard deviation of luminance / 255
+  minTextArea: number;    // 0–1 share of blocks with text- or line-like edges
+}
+
+export interface QualityMetrics {
+  sharpness: number;
+  contrast: number;
+  textArea: number;
+  blank: boolean; // Virtually every pixel is the background colour
+}
+
+export interface QualityResult {
+  metrics: QualityMetrics;
+  failures: string[];  // e.g. "Blurry: sharpness 12 < 60"; empty when the image passed
+  accepted?: boolean;  // User chose to send it to the AI anyway
+}
+
+// --- Duplicate Detection ---
+
+export interface DuplicateConfig {
+  enabled: boolean;     // Hash images when the folder loads and group look-alikes
+  maxDistance: number;  // Differing bits (of 64) still counted as the same image
+  reuseResults: boolean; // Analyse one image per group and copy its extraction to the rest
+}
+
+// --- Source Documents ---
+
+// One analysable image from a selected file: the file itself, or one page of a PDF, TIFF or HEIC
+// source that loadPageImage renders when it is needed
+export interface SourcePage {
+  file: File;          // The selected file; for a document page, the whole document
+  sourceType?: string; // MIME type of the source (or 'pdf', 'tiff', 'heic') when `file` needs rendering
+  sourceInfo?: SourceFileInfo; // Set with sourceType
+  page?: number;       // 1-based, only for sources with more than one page
+  pageCount?: number;
+}
+
+// What the image checks report for a converted page instead of the PNG render's own header.
+// colorSpace is only known for TIFF; PDF and HEIC leave it unset.
+export type SourceFileInfo = Pick<ImageInfo, 'format' | 'fileSize' | 'colorSpace'>;
+
+// --- Upload Preprocessing ---
+
+export type UploadFormat = 'original' | 'jpeg' | 'png' | 'webp';
+
+export interface UploadConfig {
+  maxEdge: number;       // Longest side in pixels sent to the provider; 0 keeps the original size
+  format: UploadFormat;  // 'original' keeps the file's own format and only re-encodes resized images
+  quality: number;       // 0–1, for JPEG and WebP
+  tiling: boolean;       // Split very wide or tall drawings into overlapping crops
+  tileAspect: number;    // Long side / short side at which tiling starts, e.g. 2.5
+  tileOverlap: number;   // 0–0.5 share of each crop repeated in the next one
+}
+
+export interface TilePosition {
+  index: number; // 0-based, along the long side
+  count: number;
+}
+
+// One payload for the provider: the whole image, or one crop of a tiled drawing
+export interface PreparedImage {
+  data: string; // Base64
+  mimeType: string;
+  width?: number;  // Unset when the browser can't decode the file and it is sent unchanged
+  height?: number;
+  tile?: TilePosition;
+}
+
+// --- Provider Types ---
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  model: string;
+  baseUrl?: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+  apiKey?: string;  // Falls back to the build-time GEMINI_API_KEY for Gemini
+  useCache?: boolean; // Reuse stored extractions for identical images (default on)
+  upload?: UploadConfig; // Downscaling, re-encoding and tiling before images are sent
+}
+
+export interface ProviderRequest {
+  prompt: string;
+  image?: { data: string; mimeType: string }; // Base64 payload
+  fileName?: string;
+  responseSchema?: object; // JSON Schema the output must follow, where the backend supports it
+}
+
+export interface VisionProvider {
+  id: ProviderId;
+  label: string;
+  defaultModel: string;
+  // Returns the raw JSON text produced by the model; must reject promptly when signal aborts
+  generate: (request: ProviderRequest, settings: ProviderSettings, signal?: AbortSignal) => Promise<string>;
 }
 
 // --- Batch Types ---
 
+export interface BatchConfig {
+  requestsPerMinute: number; // Budget shared by all AI calls in a run
+  maxRetries: number;        // Retries for 429 / 5xx before giving up on an item
+  concurrency: number;       // Number of analyzeContent calls allowed in flight at once
+  quality?: QualityConfig;   // Local preflight before each AI call; defaults to flagging only
+  duplicates?: DuplicateConfig; // Perceptual-hash grouping; results are only shared when enabled there
+}
+
 export interface BatchItem {
   id: string;
   file: File;
-  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'ERROR' | 'SKIPPED';
+  sourceType?: string; // Set when `file` is a PDF, TIFF or HEIC source rendered for each use
+  sourceInfo?: SourceFileInfo; // The source's format, size and colour space, for the image checks
+  page?: number;       // Page of a multi-page source this row analyses
+  pageCount?: number;
+  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'ERROR' | 'SKIPPED' | 'CANCELLED';
   matchedSpecs: SpecRow[]; // Can match multiple rows
+  matchScore?: number; // How confident the filename match is, 0–1
+  matchReason?: string; // Which strategy matched, e.g. "SKU 4411" or "fuzzy 0.87"
   aiResponse?: GeminiResponse;
   validations?: ValidationResult[]; // Result for each matched spec
   error?: string;
+  retries?: number; // Backoff retries spent on this item
+  fileMissing?: boolean; // Restored from a saved session; the image must be re-attached before processing
+  cached?: boolean; // aiResponse came from the local extraction cache
+  imageInfo?: ImageInfo; // Header data, read locally before any AI call
+  imageCheck?: ImageCheckResult;
+  quality?: QualityResult; // Preflight result for matched images, recorded before the AI call
+  imageHash?: string;    // 64-bit difference hash (hex) for near-duplicate detection
+  duplicateOf?: string;  // Id of the first item in this item's duplicate group
+  reusedFrom?: string;   // File name whose extraction was copied here instead of calling the AI
+  tiles?: number;        // Crops analysed and merged for this image, when it was tiled
 }
 
 export interface BatchState {
   items: BatchItem[];
   isProcessing: boolean;
-  progress: number;
+  isPaused: boolean; // Pause requested: in-flight items finish, nothing new starts
+  progress: number; // Items finished (completed, skipped or failed)
+  inFlight: number; // Items currently waiting on the AI
   total: number;
-}
\ No newline at end of file
+}
+
+// --- Session Types ---
+
+// BatchItem without the File object, as persisted in IndexedDB
+export interface StoredBatchItem extends Omit<BatchItem, 'file' | 'fileMissing'> {
+  fileName: string;
+  fileSize: number;
+  fileType: string;
+  lastModified: number;
+}
+
+export interface BatchSession {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  specFileName?: string;
+  specs: SpecRow[]; // Snapshot of the specs the run was matched against
+  config: ValidationConfig;
+  providerSettings: Omit<ProviderSettings, 'apiKey'>;
+  items: StoredBatchItem[];
+}
+
+export interface BatchSessionSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  total: number;
+  completed: number;
+}
@@ -0,0 +1,139 @@
+import { utils, write } from 'xlsx';
+import { BatchItem } from '../types';
+import { formatToleranceRule, formatDimensionLabel, formatExpected } from './validation';
+import { formatImageInfo } from './imageChecks';
+import { formatQualityMetrics } from './imageQuality';
+import { listDuplicateGroups, hammingDistance } from './imageHash';
+
+// Local image check results, the same on every row of an image
+const imageColumns = (item: BatchItem) => ({
+  'Image': item.imageInfo ? formatImageInfo(item.imageInfo) : '',
+  'Image Check': item.imageCheck?.status || '',
+  'Image Issues': item.imageCheck?.failures.join('; ') || '',
+  'Quality': !item.quality ? '' : item.quality.failures.length === 0 ? 'PASS' : item.quality.accepted ? 'LOW (SENT)' : 'LOW',
+  'Quality Metrics': item.quality
+      ? [formatQualityMetrics(item.quality.metrics), ...item.quality.failures].join('; ')
+      : ''
+});
+
+export const downloadBatchReport = (items: BatchItem[]) => {
+  // Flatten data for CSV
+  // One image might have multiple validation rows
+  const rows: any[] = [];
+  
+  items.forEach(item => {
+      // If skipped, we only export the filename and status
+      if (item.status === 'SKIPPED') {
+          rows.push({
+              'File Name': item.file.name,
+              'Page': item.page ?? '',
+              'Processing Status': 'SKIPPED',
+              'Reason': item.quality?.failures.length ? item.error : 'No matching product spec found in Excel',
+              ...imageColumns(item),
+              'Detected Dimensions': 'N/A',
+              'Matched Product': item.matchedSpecs.map(spec => spec.productName).join(', ') || 'N/A',
+              'Validation Status': 'N/A'
+          });
+          return;
+      }
+
+      const detectedDims = item.aiResponse?.dimensions.join(' x ') || 'N/A';
+      const detectedUnits = item.aiResponse?.units || '';
+      const detectedMeasurements = item.aiResponse?.measurements
+          .map(m => m.label ? `${formatDimensionLabel(m.label)} ${m.value}` : String(m.value))
+          .join(', ') || '';
+      const aiSummary = item.aiResponse?.raw_text || '';
+      
+      if (item.validations && item.validations.length > 0) {
+          item.validations.forEach(val => {
+              rows.push({
+                  'File Name': item.file.name,
+                  'Page': item.page ?? '',
+                  'Processing Status': item.status,
+                  'Reason': '',
+                  ...imageColumns(item),
+                  'Retries': item.retries || 0,
+                  'Cached': item.cached ? 'Yes' : 'No',
+                  'Reused From': item.reusedFrom || '',
+                  'Tiles': item.tiles || '',
+                  'Detected Dimensions': detectedDims,
+                  'Detected Units': detectedUnits,
+                  'Detected Measurements': detectedMeasurements,
+                  'Matched Product': val.matchedRow?.productName || 'N/A',
+                  'Match Reason': item.matchReason || '',
+                  'Spec Sheet': val.matchedRow?.sheet || '',
+                  'Expected Dimensions': val.matchedRow?.dimensions.map(d => formatExpected(d.value, d.max)).join(' x ') || 'N/A',
+                  'Spec Unit': val.matchedRow?.unit || '',
+                  'Unit Conversion': val.conversion
+                      ? `${val.conversion.from} → ${val.conversion.to} (x${Number(val.conversion.factor.toFixed(4))}): ${val.matches.map(m => `${m.original}→${m.detected}`).join(', ')}`
+                      : '',
+                  'Validation Status': val.status,
+                  'Tolerance Rules': val.matches
+                      .map(m => `${formatExpected(m.expected, m.expectedMax)}: ${m.tolerance.source} ${formatToleranceRule(m.tolerance)}`)
+                      .join(', '),
+                  'Out of Tolerance': (val.mismatches || [])
+                      .map(m => `${formatDimensionLabel(m.label)} expected ${formatExpected(m.expected, m.expectedMax)}, found ${m.detected}`)
+                      .join('; '),
+                  'Missing': [...val.missing.map(String), ...(val.missingRanges || []).map(r => formatExpected(r.min, r.max))].join(', '),
+                  'Extra': val.extra.join(', '),
+                  'AI Observation': aiSummary
+              });
+          });
+      } else {
+          // Error case or processing failed
+          rows.push({
+              'File Name': item.file.name,
+              'Page': item.page ?? '',
+              'Processing Status': item.status === 'PENDING' && item.error ? 'THROTTLED' : item.status,
+              'Reason': item.error || 'Unknown Error',
+              ...imageColumns(item),
+              'Retries': item.retries || 0,
+              'Detected Dimensions': detectedDims,
+              'Detected Units': detectedUnits,
+              'Detected Measurements': detectedMeasurements,
+              'Matched Product': 'NO MATCH',
+              'Expected Dimensions': '',
+              'Spec Unit': '',
+              'Unit Conversion': '',
+              'Validation Status': item.status === 'CANCELLED' ? 'CANCELLED' : 'ERROR',
+              'Tolerance Rules': '',
+              'Out of Tolerance': '',
+              'Missing': '',
+              'Extra': '',
+              'AI Observation': item.error || aiSummary
+          });
+      }
+  });
+
+  const worksheet = utils.json_to_sheet(rows);
+  const workbook = utils.book_new();
+  utils.book_append_sheet(workbook, worksheet, "Batch Report");
+
+  // One row per image in each near-duplicate group; the first image is the one others are compared to
+  const duplicateRows: any[] = [];
+  Array.from(listDuplicateGroups(items).values()).forEach((group, index) => {
+      group.forEach((item, position) => {
+          duplicateRows.push({
+              'Group': index + 1,
+              'File Name': item.file.name,
+              'Page': item.page ?? '',
+              'Role': position === 0 ? 'First in group' : 'Duplicate',
+              'Hash Distance': position === 0 || !item.imageHash || !group[0].imageHash ? '' : hammingDistance(group[0].imageHash, item.imageHash),
+              'Extraction': item.reusedFrom ? `Reused from ${item.reusedFrom}` : item.cached ? 'Cached' : item.aiResponse ? 'Own AI call' : '',
+              'Processing Status': item.status
+          });
+      });
+  });
+  if (duplicateRows.length > 0) {
+      utils.book_append_sheet(workbook, utils.json_to_sheet(duplicateRows), "Duplicates");
+  }
+  
+  const excelBuffer = write(workbook, { bookType: 'xlsx', type: 'array' });
+  const blob = new Blob([excelBuffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+  
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `Batch_Report_${new Date().toISOString().slice(0,19).replace(/:/g,'-')}.xlsx`;
+  link.click();
+};
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { DimensionLabel, DimensionUnit, NumberLocale } from '../types';
+import { parseDimensionText, findNonDimensionText, findAmbiguousNumbers, detectNumberLocale } from './dimensionParser';
+
+type Expected = { value: number; max?: number; label?: DimensionLabel; unit?: DimensionUnit };
+
+// Spec cell or AI value -> dimensions, without the matched source text
+const FIXTURES: [string, any, Expected[]][] = [
+  // Mixed numbers and fractions
+  ['mixed number', '24 1/2"', [{ value: 24.5, unit: 'in' }]],
+  ['hyphenated mixed number', '24-1/2"', [{ value: 24.5, unit: 'in' }]],
+  ['plain fraction', '1/2', [{ value: 0.5 }]],
+  ['vulgar fraction', '30½', [{ value: 30.5 }]],
+  ['spaced vulgar fraction', '30 ½"', [{ value: 30.5, unit: 'in' }]],
+  ['bare vulgar fraction', '¾"', [{ value: 0.75, unit: 'in' }]],
+
+  // Feet and inches
+  ['feet-inch', `5'6"`, [{ value: 66, unit: 'in' }]],
+  ['typographic primes', '5′6″', [{ value: 66, unit: 'in' }]],
+  ['feet-inch words', '5 ft 6 in', [{ value: 66, unit: 'in' }]],
+  ['feet only', `6'`, [{ value: 72, unit: 'in' }]],
+
+  // W x D x H strings
+  ['trailing markers', '24"W x 18"D x 30"H', [
+    { value: 24, label: 'width', unit: 'in' },
+    { value: 18, label: 'depth', unit: 'in' },
+    { value: 30, label: 'height', unit: 'in' },
+  ]],
+  ['trailing markers without units', '24W x 18D x 30H', [
+    { value: 24, label: 'width' },
+    { value: 18, label: 'depth' },
+    { value: 30, label: 'height' },
+  ]],
+  ['leading markers, space separated', 'W 24 D 18 H 30', [
+    { value: 24, label: 'width' },
+    { value: 18, label: 'depth' },
+    { value: 30, label: 'height' },
+  ]],
+  ['leading markers right after x', 'W24"xD18"xH30"', [
+    { value: 24, label: 'width', unit: 'in' },
+    { value: 18, label: 'depth', unit: 'in' },
+    { value: 30, label: 'height', unit: 'in' },
+  ]],
+  ['leading markers around x', 'W24 x D18 x H30', [
+    { value: 24, label: 'width' },
+    { value: 18, label: 'depth' },
+    { value: 30, label: 'height' },
+  ]],
+  ['markers with colons', 'W: 24, D: 18', [
+    { value: 24, label: 'width' },
+    { value: 18, label: 'depth' },
+  ]],
+  ['markers out of order', 'H 30 x W 24', [
+    { value: 30, label: 'height' },
+    { value: 24, label: 'width' },
+  ]],
+  ['diameter', 'Dia 18"', [{ value: 18, label: 'diameter', unit: 'in' }]],
+  ['diameter sign', 'Ø 45 cm', [{ value: 45, label: 'diameter', unit: 'cm' }]],
+  ['shared trailing unit', '24 x 18 x 30 cm', [
+    { value: 24, unit: 'cm' },
+    { value: 18, unit: 'cm' },
+    { value: 30, unit: 'cm' },
+  ]],
+  ['mixed units stay apart', '2.5 cm x 1 mm', [
+    { value: 2.5, unit: 'cm' },
+    { value: 1, unit: 'mm' },
+  ]],
+  ['"by" separator', '24 by 18', [{ value: 24 }, { value: 18 }]],
+
+  // Ranges
+  ['hyphen range', '24-26', [{ value: 24, max: 26 }]],
+  ['dash range with unit', '18 – 20"', [{ value: 18, max: 20, unit: 'in' }]],
+  ['"to" range', '24 to 26 in', [{ value: 24, max: 26, unit: 'in' }]],
+
+  // Numbers the sheet already typed
+  ['number cell', 24.5, [{ value: 24.5 }]],
+  ['empty cell', '', []],
+  ['null cell', null, []],
+  ['text only', 'TBD', []],
+];
+
+describe('parseDimensionText', () => {
+  it.each(FIXTURES)('%s: %j', (_, input, expected) => {
+    expect(parseDimensionText(input).map(({ text, ...rest }) => rest)).toEqual(expected);
+  });
+});
+
+// [input, locale, values]
+const LOCALE_FIXTURES: [string, NumberLocale, number[]][] = [
+  ['45,5 cm', 'auto', [45.5]],
+  ['1.234,5', 'auto', [1234.5]],
+  ['1,234.5', 'auto', [1234.5]],
+  ['1,200', 'auto', []],
+  ['1,200 x 800', 'auto', [800]],
+  ['45,5', 'comma', [45.5]],
+  ['1.200', 'comma', [1200]],
+  ['1,200', 'comma', [1.2]],
+  ['1,200', 'dot', [1200]],
+  ['1.200', 'dot', [1.2]],
+];
+
+describe('number locales', () => {
+  it.each(LOCALE_FIXTURES)('%j in %s', (input, locale, expected) => {
+    expect(parseDimensionText(input, locale).map(d => d.value)).toEqual(expected);
+  });
+
+  it('reports thousands-looking values it would not guess in auto mode', () => {
+    expect(findAmbiguousNumbers('1,200 x 800')).toEqual(['1,200']);
+    expect(findAmbiguousNumbers('1.200 x 800')).toEqual(['1.200']);
+    expect(findAmbiguousNumbers('1,200', 'comma')).toEqual([]);
+    expect(findAmbiguousNumbers('45,5 x 1,25')).toEqual([]);
+  });
+
+  it('detects the decimal separator a set of cells agrees on', () => {
+    expect(detectNumberLocale(['45,5', '30,25', 'W 20'])).toBe('comma');
+    expect(detectNumberLocale(['45.5', '1,234.5'])).toBe('dot');
+    expect(detectNumberLocale(['1,200', 24.5, 'TBD'])).toBeUndefined();
+  });
+});
+
+describe('findNonDimensionText', () => {
+  it.each([
+    ['24"W x 18"D x 30"H', ''],
+    ['W 24 D 18 H 30', ''],
+    ['W24"xD18"xH30"', ''],
+    ['5 ft 6 in', ''],
+    ['approx. 24"', 'approx'],
+    ['TBD', 'TBD'],
+  ])('%j leaves %j', (input, expected) => {
+    expect(findNonDimensionText(input)).toBe(expected);
+  });
+});
+
+describe('detected number locales', () => {
+  it('still reports thousands-looking values instead of reading them with the detected separator', () => {
+    expect(parseDimensionText('1,200 x 45,5', 'comma', true).map(d => d.value)).toEqual([45.5]);
+    expect(findAmbiguousNumbers('1,200 x 45,5', 'comma', true)).toEqual(['1,200']);
+    expect(findAmbiguousNumbers('1.200', 'dot', true)).toEqual(['1.200']);
+    expect(parseDimensionText('1.234,5', 'comma', true).map(d => d.value)).toEqual([1234.5]);
+  });
+});
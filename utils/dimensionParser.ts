@@ -0,0 +1,200 @@
+import { DimensionLabel, DimensionUnit, NumberLocale } from '../types';
+
+export interface ParsedDimension {
+  value: number;
+  max?: number;           // Upper end of a range ("24-26", "18 – 20\""); value is the lower end
+  label?: DimensionLabel; // From W/D/H/L/Dia markers next to the number
+  unit?: DimensionUnit;   // From a unit right after the number; feet-inch values are always inches
+  text: string;           // The matched source text, e.g. `5'6"` or `24 1/2"`
+}
+
+const VULGAR_FRACTIONS: Record<string, string> = {
+  '½': '1/2', '⅓': '1/3', '⅔': '2/3', '¼': '1/4', '¾': '3/4',
+  '⅕': '1/5', '⅖': '2/5', '⅗': '3/5', '⅘': '4/5', '⅙': '1/6', '⅚': '5/6',
+  '⅛': '1/8', '⅜': '3/8', '⅝': '5/8', '⅞': '7/8',
+};
+
+const MARKER_LABELS: Record<string, DimensionLabel> = {
+  w: 'width',
+  d: 'depth',
+  h: 'height',
+  l: 'length',
+  dia: 'diameter',
+  'ø': 'diameter',
+};
+
+// A plain fraction, a whole or decimal number with an optional fraction ("24 1/2", "24-1/2"), or ".5"
+const NUMBER = String.raw`\d+\s*/\s*\d+|\d+(?:\.\d+)?(?:(?:\s+|\s*-\s*)\d+\s*/\s*\d+)?|\.\d+`;
+
+const UNIT = String.raw`(?:"|in(?:ch(?:es)?)?\b|cm\b|mm\b)`;
+
+// Optional W/D/H marker, the number, then either feet-inch ("5'6"") or an optional range end and unit.
+// A prefix marker may follow an "x" separator directly (`W24"xD18"`), but not other letters.
+const TOKEN = new RegExp(
+  String.raw`(?:(?:(?<![a-z])|(?<=(?:^|[^a-z])x))(?<pre>dia|w|d|h|l|ø)\.?\s*[:=]?\s*)?` +
+  String.raw`(?<num>${NUMBER})` +
+  String.raw`(?:\s*(?<feet>'|ft\b|feet\b|foot\b)(?:\s*-?\s*(?<inch>${NUMBER})\s*(?:"|in(?:ch(?:es)?)?\b)?)?` +
+  String.raw`|(?:\s*${UNIT}?\s*(?:-|–|—|to\b)\s*(?<max>${NUMBER}))?\s*(?<unit>${UNIT})?)?` +
+  String.raw`(?:\s*(?<post>dia|w|d|h|l)(?=$|x|[^a-z]))?`,
+  'gi'
+);
+
+// Separators and filler left between dimension tokens: "24 x 18 x 30", "24 by 18", "24 × 18 / 30"
+const SEPARATORS = /(?<![a-z])(x|by)(?![a-z])|[×*\/,;:~()\[\]+\-–—|]/gi;
+
+// Typographic primes and quotes, fraction slash and vulgar fractions become plain ASCII
+const normalizeText = (text: string): string =>
+  text
+    .replace(/[′’‘`´]/g, "'")
+    .replace(/[″“”]|''/g, '"')
+    .replace(/⁄/g, '/')
+    .replace(/[½⅓⅔¼¾⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞]/g, ch => ` ${VULGAR_FRACTIONS[ch]}`);
+
+// A single separator followed by exactly three digits: "1,200" / "1.200" is 1.2 or 1200
+const AMBIGUOUS_NUMBER = /(?<![\d.,])[1-9]\d{0,2}[.,]\d{3}(?![\d.,])/g;
+
+// Rewrites numbers to dot decimals without thousands separators. In 'auto' mode only
+// unambiguous forms are rewritten (45,5 / 1.234,5 / 1,234.5); ambiguous ones are removed
+// and returned so callers can report them instead of guessing. A `detected` locale was
+// inferred from other cells rather than set by the user, so it doesn't settle them either.
+const applyNumberLocale = (text: string, locale: NumberLocale, detected = false): { text: string; ambiguous: string[] } => {
+  if (detected && locale !== 'auto') {
+    const { text: rest } = applyNumberLocale(text.replace(AMBIGUOUS_NUMBER, ' '), locale);
+    return { text: rest, ambiguous: text.match(AMBIGUOUS_NUMBER) || [] };
+  }
+  if (locale === 'comma') {
+    return {
+      text: text
+        .replace(/(?<![\d.,])([1-9]\d{0,2})\.(\d{3})(?!\d)/g, '$1$2')
+        .replace(/(?<![\d,])(\d+),(\d+)(?![\d,])/g, '$1.$2'),
+      ambiguous: []
+    };
+  }
+  if (locale === 'dot') {
+    return { text: text.replace(/(?<![\d.,])([1-9]\d{0,2}),(\d{3})(?![\d,])/g, '$1$2'), ambiguous: [] };
+  }
+
+  const ambiguous = text.match(AMBIGUOUS_NUMBER) || [];
+  return {
+    text: text
+      .replace(AMBIGUOUS_NUMBER, ' ')
+      .replace(/(?<![\d.,])(\d{1,3})\.(\d{3}),(\d+)(?![\d.,])/g, '$1$2.$3')
+      .replace(/(?<![\d.,])(\d{1,3}),(\d{3})\.(\d+)(?![\d.,])/g, '$1$2.$3')
+      .replace(/(?<![\d.,])(\d+),(\d{1,2}|\d{4,})(?![\d.,])/g, '$1.$2')
+      .replace(/(?<![\d.,])0,(\d+)(?![\d.,])/g, '0.$1'),
+    ambiguous
+  };
+};
+
+// Decimal separator a set of cells agrees on, or undefined when they give no evidence either way.
+// Real numbers (not text) carry no locale, so only strings count.
+export const detectNumberLocale = (values: any[]): 'dot' | 'comma' | undefined => {
+  let comma = 0;
+  let dot = 0;
+  values.forEach(value => {
+    if (typeof value !== 'string') return;
+    const text = normalizeText(value);
+    if (/(?<![\d.,])\d+,(\d{1,2}|\d{4,})(?![\d.,])|\d\.\d{3},\d/.test(text)) comma++;
+    if (/(?<![\d.,])\d+\.(\d{1,2}|\d{4,})(?![\d.,])|\d,\d{3}\.\d/.test(text)) dot++;
+  });
+  if (comma > dot) return 'comma';
+  if (dot > comma) return 'dot';
+  return undefined;
+};
+
+// Numbers 'auto' mode (or a detected locale) won't read, e.g. ["1,200"] for "1,200 x 800"
+export const findAmbiguousNumbers = (input: any, locale: NumberLocale = 'auto', detected = false): string[] => {
+  if (typeof input !== 'string') return [];
+  return applyNumberLocale(normalizeText(input), locale, detected).ambiguous;
+};
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+// "24", "24.5", "1/2", "24 1/2", "24-1/2" -> number; undefined for a zero denominator
+const evaluateNumber = (text: string): number | undefined => {
+  const fraction = text.match(/^(?:(\d+(?:\.\d+)?)(?:\s+|\s*-\s*))?(\d+)\s*\/\s*(\d+)$/);
+  if (!fraction) return Number(text);
+  const denominator = Number(fraction[3]);
+  if (denominator === 0) return undefined;
+  return Number(fraction[1] || 0) + Number(fraction[2]) / denominator;
+};
+
+const unitOf = (text?: string): DimensionUnit | undefined => {
+  if (!text) return undefined;
+  const lower = text.toLowerCase();
+  if (lower === '"' || lower.startsWith('in')) return 'in';
+  if (lower === 'cm' || lower === 'mm') return lower;
+  return undefined;
+};
+
+// Reads every dimension in a spec cell or AI value:
+//   24 1/2"  -> 24.5 in        30½ -> 30.5
+//   5'6"     -> 66 in          5 ft 6 in -> 66 in
+//   24"W x 18"D x 30"H -> width 24, depth 18, height 30
+//   24-26    -> 24 to 26       18 – 20" -> 18 to 20 in
+//   45,5 cm  -> 45.5 cm (comma locale, or 'auto')
+// Numbers are never negative here: a hyphen is a range, a separator or part of "24-1/2".
+export const parseDimensionText = (input: any, locale: NumberLocale = 'auto', detected = false): ParsedDimension[] => {
+  if (typeof input === 'number') return isFinite(input) ? [{ value: input, text: String(input) }] : [];
+  if (input === null || input === undefined) return [];
+
+  const { text } = applyNumberLocale(normalizeText(String(input)), locale, detected);
+  const results: ParsedDimension[] = [];
+
+  const pattern = new RegExp(TOKEN.source, TOKEN.flags);
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    const groups = match.groups || {};
+    let matched = match[0];
+    // A value takes a marker before or after it, not both: after a prefix marker, a trailing
+    // one is the next value's prefix ("W 24 D 18 H 30"), so hand it back
+    if (groups.pre && groups.post) {
+      matched = matched.slice(0, matched.length - groups.post.length);
+      pattern.lastIndex = match.index + matched.length;
+    }
+    let value = evaluateNumber(groups.num.trim());
+    if (value === undefined || isNaN(value)) continue;
+
+    let max = groups.max ? evaluateNumber(groups.max.trim()) : undefined;
+    if (max !== undefined && (isNaN(max) || max === value)) max = undefined;
+    if (max !== undefined && max < value) [value, max] = [max, value];
+
+    let unit = unitOf(groups.unit);
+    if (groups.feet) {
+      const inches = groups.inch ? evaluateNumber(groups.inch.trim()) : 0;
+      if (inches === undefined || isNaN(inches)) continue;
+      value = value * 12 + inches;
+      unit = 'in';
+    }
+
+    const marker = (groups.pre || groups.post || '').toLowerCase();
+    const label = MARKER_LABELS[marker];
+    results.push({
+      value: round(value),
+      ...(max !== undefined ? { max: round(max) } : {}),
+      ...(label ? { label } : {}),
+      ...(unit ? { unit } : {}),
+      text: matched.trim()
+    });
+  }
+
+  // "24 x 18 x 30 cm": a single trailing unit covers the whole string
+  const units = new Set(results.map(r => r.unit).filter(Boolean));
+  const last = results[results.length - 1];
+  if (units.size === 1 && last?.unit) {
+    results.forEach(r => { if (!r.unit) r.unit = last.unit; });
+  }
+  return results;
+};
+
+// Whatever is left once dimension tokens, separators and unit words are removed
+// ("approx. 24" -> "approx", "TBD" -> "TBD", `24"W x 18"D` -> "")
+export const findNonDimensionText = (input: any): string => {
+  if (typeof input === 'number' || input === null || input === undefined) return '';
+  return normalizeText(String(input))
+    .replace(TOKEN, ' ')
+    .replace(SEPARATORS, ' ')
+    .replace(/(?<![a-z])(inch(es)?|in|cm|mm|ft|feet)(?![a-z])/gi, ' ')
+    .replace(/["'.\s]+/g, ' ')
+    .trim();
+};
@@ -0,0 +1,167 @@
+import type { IFD } from 'utif';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { SourcePage, ColorSpace } from '../types';
+import { decodeImage, drawToCanvas, canvasToBlob } from './imageCanvas';
+
+export type SourceKind = 'image' | 'pdf' | 'tiff' | 'heic';
+
+// For file inputs: everything sourceKind recognises, by MIME type and by extension,
+// since browsers often report TIFF and HEIC files with an empty type
+export const SUPPORTED_FILE_ACCEPT = 'image/*,application/pdf,.pdf,.tif,.tiff,.heic,.heif';
+
+// PDF pages are rendered at this resolution, which keeps 2 mm callouts legible,
+// but never beyond MAX_PAGE_EDGE so an A0 sheet doesn't become a 100 MP canvas
+const PDF_DPI = 200;
+const MAX_PAGE_EDGE = 8000;
+
+const extensionOf = (name: string): string => {
+  const dot = name.lastIndexOf('.');
+  return dot >= 0 ? name.slice(dot + 1).toLowerCase() : '';
+};
+
+export const sourceKind = (file: File): SourceKind | undefined => {
+  const ext = extensionOf(file.name);
+  if (file.type === 'application/pdf' || ext === 'pdf') return 'pdf';
+  if (file.type === 'image/tiff' || ext === 'tif' || ext === 'tiff') return 'tiff';
+  if (file.type === 'image/heic' || file.type === 'image/heif' || ext === 'heic' || ext === 'heif') return 'heic';
+  if (file.type.startsWith('image/')) return 'image';
+  return undefined;
+};
+
+export const isSupportedFile = (file: File): boolean => sourceKind(file) !== undefined;
+
+// Rendered pages keep the source's name and lastModified, so anything that reads the image
+// still sees the original file
+const toPageFile = async (canvas: HTMLCanvasElement, source: File): Promise<File> =>
+  new File([await canvasToBlob(canvas, 'image/png')], source.name, { type: 'image/png', lastModified: source.lastModified });
+
+const openPdf = async (file: File) => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+  return pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+};
+
+const renderPdfPage = async (file: File, number: number): Promise<File> => {
+  const pdf = await openPdf(file);
+  try {
+    const page = await pdf.getPage(number);
+    const size = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: Math.min(PDF_DPI / 72, MAX_PAGE_EDGE / Math.max(size.width, size.height)) });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.floor(viewport.width);
+    canvas.height = Math.floor(viewport.height);
+    await page.render({ canvas, viewport, background: '#ffffff' }).promise;
+    return await toPageFile(canvas, file);
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+// Bit 0 of NewSubfileType (tag 254) marks reduced-resolution copies such as thumbnails
+const isReducedImage = (ifd: IFD): boolean =>
+  Array.isArray(ifd.t254) && (Number(ifd.t254[0]) & 1) === 1;
+
+// PhotometricInterpretation (tag 262); YCbCr is stored RGB
+const TIFF_COLOR_SPACES: Record<number, ColorSpace> = { 0: 'grayscale', 1: 'grayscale', 2: 'rgb', 3: 'indexed', 5: 'cmyk', 6: 'rgb' };
+
+const tiffColorSpace = (ifd: IFD): ColorSpace | undefined =>
+  Array.isArray(ifd.t262) ? TIFF_COLOR_SPACES[Number(ifd.t262[0])] : undefined;
+
+const readTiffPages = async (buffer: ArrayBuffer): Promise<IFD[]> => {
+  const UTIF = await import('utif');
+  return UTIF.decode(buffer).filter(ifd => !isReducedImage(ifd));
+};
+
+const renderTiffPage = async (file: File, number: number): Promise<File> => {
+  const UTIF = await import('utif');
+  const buffer = await file.arrayBuffer();
+  const ifd = (await readTiffPages(buffer))[number - 1];
+  if (!ifd) throw new Error(`${file.name} has no page ${number}`);
+
+  UTIF.decodeImage(buffer, ifd);
+  const bitmap = await createImageBitmap(new ImageData(new Uint8ClampedArray(UTIF.toRGBA8(ifd)), ifd.width, ifd.height));
+  const canvas = drawToCanvas(bitmap, ifd.width, ifd.height);
+  bitmap.close();
+  if (!canvas) throw new Error(`Could not draw ${file.name}`);
+  return toPageFile(canvas, file);
+};
+
+// Safari decodes HEIC itself; elsewhere it goes through the libheif build in heic2any
+const renderHeic = async (file: File): Promise<File> => {
+  const bitmap = await decodeImage(file);
+  if (bitmap) {
+    const canvas = drawToCanvas(bitmap, bitmap.width, bitmap.height);
+    bitmap.close();
+    if (canvas) return toPageFile(canvas, file);
+  }
+  const { default: heic2any } = await import('heic2any');
+  const converted = await heic2any({ blob: file, toType: 'image/png' });
+  const blob = Array.isArray(converted) ? converted[0] : converted;
+  return new File([blob], file.name, { type: 'image/png', lastModified: file.lastModified });
+};
+
+// One entry per page, with the page's colour space where the format records one.
+// Reads the document structure only; no page is rendered.
+const outlinePages = async (file: File, kind: Exclude<SourceKind, 'image'>): Promise<(ColorSpace | undefined)[]> => {
+  if (kind === 'pdf') {
+    const pdf = await openPdf(file);
+    try {
+      return Array.from({ length: pdf.numPages }, () => undefined);
+    } finally {
+      await pdf.destroy();
+    }
+  }
+  if (kind === 'tiff') return (await readTiffPages(await file.arrayBuffer())).map(tiffColorSpace);
+  return [undefined];
+};
+
+// Splits a selected file into the rows that get analysed: PDFs and multi-page TIFFs one per page,
+// anything else one. Only the document structure is read here; loadPageImage renders a page when
+// its row needs the pixels, so a long catalogue never holds more than the pages in flight. Rows
+// carry the source's format and size, so the image checks describe the uploaded file rather than
+// the PNG render. Files whose structure can't be read are kept whole, and show up as unreadable
+// in the image checks.
+export const expandSourceFile = async (file: File): Promise<SourcePage[]> => {
+  const kind = sourceKind(file);
+  if (kind === 'image' || kind === undefined) return [{ file }];
+
+  let pages: (ColorSpace | undefined)[] = [];
+  try {
+    pages = await outlinePages(file, kind);
+  } catch (err) {
+    console.warn(`Could not read ${file.name}`, err);
+  }
+  if (pages.length === 0) return [{ file }];
+
+  const source = (colorSpace?: ColorSpace): SourcePage => ({
+    file,
+    sourceType: file.type || kind,
+    sourceInfo: { format: kind, fileSize: file.size, ...(colorSpace ? { colorSpace } : {}) },
+  });
+  if (pages.length === 1) return [source(pages[0])];
+  return pages.map((colorSpace, i) => ({ ...source(colorSpace), page: i + 1, pageCount: pages.length }));
+};
+
+export const expandSourceFiles = async (files: File[]): Promise<SourcePage[]> => {
+  const pages: SourcePage[] = [];
+  for (const file of files) pages.push(...(await expandSourceFile(file)));
+  return pages;
+};
+
+// The image a row analyses: the file itself, or its page of a PDF, TIFF or HEIC source rendered
+// to PNG. Callers render right before they need the pixels and drop the result afterwards.
+export const loadPageImage = async (source: { file: File; sourceType?: string; page?: number }): Promise<File> => {
+  if (!source.sourceType) return source.file;
+  const kind = sourceKind(source.file);
+  if (kind === 'pdf') return renderPdfPage(source.file, source.page || 1);
+  if (kind === 'tiff') return renderTiffPage(source.file, source.page || 1);
+  if (kind === 'heic') return renderHeic(source.file);
+  return source.file;
+};
+
+export const formatPage = (item: { page?: number; pageCount?: number }): string =>
+  item.page ? `p. ${item.page}/${item.pageCount}` : '';
+
+// File name with the page, for places that refer to one row among several from the same file
+export const formatItemName = (item: { file: File; page?: number; pageCount?: number }): string =>
+  item.page ? `${item.file.name} (${formatPage(item)})` : item.file.name;
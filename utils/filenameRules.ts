@@ -0,0 +1,77 @@
+import { FilenameRules, FilenameKey } from '../types';
+
+export const EMPTY_FILENAME_RULES: FilenameRules = {
+  patterns: [],
+  stripPrefixes: [],
+  stripSuffixes: [],
+};
+
+const NAMED_GROUPS = ['product', 'sku', 'size', 'view'] as const;
+
+export const hasFilenameRules = (rules?: FilenameRules): rules is FilenameRules =>
+  !!rules && (rules.patterns.length > 0 || rules.stripPrefixes.length > 0 || rules.stripSuffixes.length > 0);
+
+// Returns an error message per pattern index for patterns that don't compile or have no named group
+export const checkFilenamePatterns = (patterns: string[]): Record<number, string> => {
+  const errors: Record<number, string> = {};
+  patterns.forEach((pattern, i) => {
+    try {
+      const probe = new RegExp(pattern, 'i');
+      if (!NAMED_GROUPS.some(group => probe.source.includes(`(?<${group}>`))) {
+        errors[i] = 'Needs at least one named group: (?<product>...), (?<sku>...), (?<size>...) or (?<view>...)';
+      }
+    } catch (err: any) {
+      errors[i] = err.message || 'Invalid regular expression';
+    }
+  });
+  return errors;
+};
+
+// Strip-list entries are removed case-insensitively and repeatedly, so the order of
+// "_front" and "_v3" doesn't matter for "..._v3_front"
+const stripAffixes = (stem: string, prefixes: string[], suffixes: string[]): string => {
+  let result = stem;
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const prefix of prefixes) {
+      if (prefix && result.length > prefix.length && result.toLowerCase().startsWith(prefix.toLowerCase())) {
+        result = result.slice(prefix.length);
+        changed = true;
+      }
+    }
+    for (const suffix of suffixes) {
+      if (suffix && result.length > suffix.length && result.toLowerCase().endsWith(suffix.toLowerCase())) {
+        result = result.slice(0, -suffix.length);
+        changed = true;
+      }
+    }
+  }
+  return result;
+};
+
+// Strips the extension and configured affixes, then applies the first pattern that matches.
+// Invalid patterns are ignored here; the rules editor reports them.
+export const parseFilename = (fileName: string, rules?: FilenameRules): FilenameKey => {
+  const bare = fileName.replace(/\.[^/.]+$/, '');
+  if (!rules) return { stem: bare };
+
+  const stem = stripAffixes(bare, rules.stripPrefixes, rules.stripSuffixes);
+  for (let i = 0; i < rules.patterns.length; i++) {
+    let match: RegExpMatchArray | null = null;
+    try {
+      match = stem.match(new RegExp(rules.patterns[i], 'i'));
+    } catch {
+      continue;
+    }
+    if (!match?.groups) continue;
+
+    const key: FilenameKey = { stem, pattern: i };
+    NAMED_GROUPS.forEach(group => {
+      const value = match!.groups![group]?.trim();
+      if (value) key[group] = value;
+    });
+    return key;
+  }
+  return { stem };
+};
@@ -0,0 +1,71 @@
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Undefined when the browser can't decode the file
+export const decodeImage = async (file: Blob): Promise<ImageBitmap | undefined> => {
+  try {
+    return await createImageBitmap(file);
+  } catch {
+    return undefined;
+  }
+};
+
+// Draws `crop` of the bitmap (all of it by default) onto a white canvas of the given size,
+// so transparent areas become paper
+export const drawToCanvas = (
+  bitmap: ImageBitmap,
+  width: number,
+  height: number,
+  crop: CropRect = { x: 0, y: 0, width: bitmap.width, height: bitmap.height }
+): HTMLCanvasElement | undefined => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return undefined;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, crop.x, crop.y, crop.width, crop.height, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+// Decodes an image and draws all of it at the size `size` picks from the original width and height
+export const renderImage = async (
+  file: Blob,
+  size: (width: number, height: number) => { width: number; height: number }
+): Promise<HTMLCanvasElement | undefined> => {
+  const bitmap = await decodeImage(file);
+  if (!bitmap) return undefined;
+  const { width, height } = size(bitmap.width, bitmap.height);
+  const canvas = drawToCanvas(bitmap, width, height);
+  bitmap.close();
+  return canvas;
+};
+
+// Size function that shrinks the longest edge to `maxEdge`, never enlarging
+export const fitToEdge = (maxEdge: number) => (width: number, height: number) => {
+  const scale = Math.min(1, maxEdge / Math.max(width, height));
+  return { width: width * scale, height: height * scale };
+};
+
+export const readPixels = (canvas: HTMLCanvasElement): Uint8ClampedArray =>
+  canvas.getContext('2d', { willReadFrequently: true })!.getImageData(0, 0, canvas.width, canvas.height).data;
+
+// Base64 payload without the data URL prefix
+export const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality?: number): Promise<Blob> =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error(`Could not encode ${mimeType}`))), mimeType, quality);
+  });
@@ -0,0 +1,309 @@
+import { ImageInfo, ImageFormat, ColorSpace, ImageRules, ImageCheckResult, SpecRow, SourceFileInfo } from '../types';
+
+export const IMAGE_FORMATS: ImageFormat[] = ['jpeg', 'png', 'gif', 'webp', 'tiff', 'pdf', 'heic'];
+export const COLOR_SPACES: ColorSpace[] = ['rgb', 'grayscale', 'cmyk', 'indexed'];
+
+// Enough for PNG, GIF and WebP headers and most JPEGs; JPEGs with large EXIF blocks are read in full
+const HEADER_BYTES = 64 * 1024;
+
+// --- Header Decoding ---
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+const PNG_COLOR_TYPES: Record<number, { colorSpace: ColorSpace; hasAlpha: boolean }> = {
+  0: { colorSpace: 'grayscale', hasAlpha: false },
+  2: { colorSpace: 'rgb', hasAlpha: false },
+  3: { colorSpace: 'indexed', hasAlpha: false },
+  4: { colorSpace: 'grayscale', hasAlpha: true },
+  6: { colorSpace: 'rgb', hasAlpha: true },
+};
+
+const decodePng = (bytes: Uint8Array, view: DataView): Omit<ImageInfo, 'fileSize'> | undefined => {
+  if (bytes.length < 33 || ascii(bytes, 12, 4) !== 'IHDR') return undefined;
+  const color = PNG_COLOR_TYPES[bytes[25]];
+  const info: Omit<ImageInfo, 'fileSize'> = {
+    format: 'png',
+    width: view.getUint32(16),
+    height: view.getUint32(20),
+    ...(color || {}),
+  };
+
+  // pHYs sits before the first IDAT; unit 1 means pixels per metre
+  for (let offset = 8; offset + 8 <= bytes.length;) {
+    const length = view.getUint32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    if (type === 'IDAT' || type === 'IEND') break;
+    if (type === 'pHYs' && offset + 17 <= bytes.length && bytes[offset + 16] === 1) {
+      info.dpi = Math.round(view.getUint32(offset + 8) * 0.0254);
+    }
+    offset += length + 12;
+  }
+  return info;
+};
+
+const decodeJpeg = (bytes: Uint8Array, view: DataView): Omit<ImageInfo, 'fileSize'> | undefined => {
+  let dpi: number | undefined;
+  let adobeTransform: number | undefined;
+
+  for (let offset = 2; offset + 4 <= bytes.length;) {
+    if (bytes[offset] !== 0xFF) return undefined;
+    const marker = bytes[offset + 1];
+    // Fill bytes and standalone markers carry no length
+    if (marker === 0xFF) { offset++; continue; }
+    if (marker === 0x01 || (marker >= 0xD0 && marker <= 0xD9)) { offset += 2; continue; }
+
+    const length = view.getUint16(offset + 2);
+    const data = offset + 4;
+
+    if (marker === 0xE0 && ascii(bytes, data, 5) === 'JFIF\0' && data + 12 <= bytes.length) {
+      const units = bytes[data + 7];
+      const density = view.getUint16(data + 8);
+      if (units === 1) dpi = density;
+      else if (units === 2) dpi = Math.round(density * 2.54);
+    }
+    if (marker === 0xEE && ascii(bytes, data, 5) === 'Adobe' && data + 11 < bytes.length) {
+      adobeTransform = bytes[data + 11];
+    }
+
+    // SOF0–SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC) {
+      if (data + 6 > bytes.length) return undefined;
+      const components = bytes[data + 5];
+      const colorSpace: ColorSpace | undefined =
+        components === 1 ? 'grayscale' : components === 3 ? 'rgb' : components === 4 || adobeTransform === 2 ? 'cmyk' : undefined;
+      return {
+        format: 'jpeg',
+        width: view.getUint16(data + 3),
+        height: view.getUint16(data + 1),
+        ...(colorSpace ? { colorSpace } : {}),
+        ...(dpi ? { dpi } : {}),
+      };
+    }
+    offset += 2 + length;
+  }
+  return undefined;
+};
+
+const decodeWebp = (bytes: Uint8Array, view: DataView): Omit<ImageInfo, 'fileSize'> | undefined => {
+  if (bytes.length < 30) return undefined;
+  const chunk = ascii(bytes, 12, 4);
+  const int24 = (offset: number) => bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+
+  if (chunk === 'VP8X') {
+    return {
+      format: 'webp',
+      width: int24(24) + 1,
+      height: int24(27) + 1,
+      colorSpace: 'rgb',
+      hasAlpha: (bytes[20] & 0x10) !== 0,
+    };
+  }
+  if (chunk === 'VP8 ' && bytes[23] === 0x9D && bytes[24] === 0x01 && bytes[25] === 0x2A) {
+    return {
+      format: 'webp',
+      width: view.getUint16(26, true) & 0x3FFF,
+      height: view.getUint16(28, true) & 0x3FFF,
+      colorSpace: 'rgb',
+      hasAlpha: false,
+    };
+  }
+  if (chunk === 'VP8L' && bytes[20] === 0x2F) {
+    const bits = view.getUint32(21, true);
+    return {
+      format: 'webp',
+      width: (bits & 0x3FFF) + 1,
+      height: ((bits >>> 14) & 0x3FFF) + 1,
+      colorSpace: 'rgb',
+      hasAlpha: ((bits >>> 28) & 1) === 1,
+    };
+  }
+  return undefined;
+};
+
+// Identifies the format by its signature rather than the file extension or MIME type
+export const decodeImageHeader = (bytes: Uint8Array, fileSize = bytes.length): ImageInfo | undefined => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let info: Omit<ImageInfo, 'fileSize'> | undefined;
+
+  if (bytes.length >= 8 && ascii(bytes, 0, 8) === '\x89PNG\r\n\x1a\n') {
+    info = decodePng(bytes, view);
+  } else if (bytes.length >= 3 && bytes[0] === 0xFF && bytes[1] === 0xD8 && bytes[2] === 0xFF) {
+    info = decodeJpeg(bytes, view);
+  } else if (bytes.length >= 10 && /^GIF8[79]a$/.test(ascii(bytes, 0, 6))) {
+    info = { format: 'gif', width: view.getUint16(6, true), height: view.getUint16(8, true), colorSpace: 'indexed' };
+  } else if (bytes.length >= 16 && ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') {
+    info = decodeWebp(bytes, view);
+  }
+
+  if (!info || info.width <= 0 || info.height <= 0) return undefined;
+  return { ...info, fileSize };
+};
+
+// Undefined for unsupported formats and truncated or corrupt headers
+export const readImageInfo = async (file: File): Promise<ImageInfo | undefined> => {
+  const head = new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+  const info = decodeImageHeader(head, file.size);
+  if (info || file.size <= HEADER_BYTES || head[0] !== 0xFF) return info;
+  return decodeImageHeader(new Uint8Array(await file.arrayBuffer()), file.size);
+};
+
+// A page rendered from a PDF, TIFF or HEIC keeps the render's pixel size but is otherwise
+// described by the uploaded file, so format, size and colour-space rules apply to what was supplied
+export const withSourceInfo = (rendered: ImageInfo, source: SourceFileInfo): ImageInfo => ({
+  format: source.format,
+  width: rendered.width,
+  height: rendered.height,
+  fileSize: source.fileSize,
+  ...(source.colorSpace ? { colorSpace: source.colorSpace } : {}),
+});
+
+// --- Rule Values (settings and spec cells) ---
+
+// "4:3", "16x9", "3/2", "1.5" or 1.5 -> width / height
+export const parseAspectRatio = (value: any): number | undefined => {
+  if (typeof value === 'number') return value > 0 ? value : undefined;
+  if (value === undefined || value === null) return undefined;
+  const str = String(value).trim();
+  const pair = str.match(/^(\d*\.?\d+)\s*[:x×\/]\s*(\d*\.?\d+)$/i);
+  const ratio = pair ? Number(pair[1]) / Number(pair[2]) : Number(str);
+  return isFinite(ratio) && ratio > 0 ? ratio : undefined;
+};
+
+// 1.3333 -> "4:3"; ratios without a small whole-number form keep three decimals
+export const formatAspectRatio = (ratio: number): string => {
+  for (let height = 1; height <= 20; height++) {
+    const width = ratio * height;
+    if (Math.abs(width - Math.round(width)) < 0.01) return `${Math.round(width)}:${height}`;
+  }
+  return ratio.toFixed(3);
+};
+
+// "2 MB", "500KB", "500" -> kilobytes; bare numbers use the header's unit ("Max Size (MB)"), else KB
+export const parseFileSizeKb = (value: any, header = ''): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const str = String(value).trim();
+  const match = str.match(/(\d*\.?\d+)\s*(kb|k|mb|m|gb|g|b)?\b/i);
+  if (!match) return undefined;
+  const unit = (match[2] || header.match(/\b(kb|mb|gb)\b/i)?.[1] || 'kb').toLowerCase()[0];
+  const amount = Number(match[1]);
+  const kb = unit === 'g' ? amount * 1024 * 1024 : unit === 'm' ? amount * 1024 : unit === 'b' ? amount / 1024 : amount;
+  return kb > 0 ? kb : undefined;
+};
+
+const FORMAT_ALIASES: Record<string, ImageFormat> = {
+  jpg: 'jpeg', jpeg: 'jpeg', png: 'png', gif: 'gif', webp: 'webp',
+  tif: 'tiff', tiff: 'tiff', pdf: 'pdf', heic: 'heic', heif: 'heic',
+};
+
+const COLOR_SPACE_ALIASES: Record<string, ColorSpace> = {
+  rgb: 'rgb', srgb: 'rgb', color: 'rgb', colour: 'rgb',
+  gray: 'grayscale', grey: 'grayscale', grayscale: 'grayscale', greyscale: 'grayscale', mono: 'grayscale',
+  cmyk: 'cmyk',
+  indexed: 'indexed', palette: 'indexed',
+};
+
+// "JPG, PNG" / "sRGB or Greyscale" -> known values; unknown words are ignored
+const parseList = <T extends string>(value: any, aliases: Record<string, T>): T[] | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const items = String(value).toLowerCase().split(/[^a-z]+/).map(word => aliases[word]).filter(Boolean);
+  return items.length > 0 ? Array.from(new Set(items)) : undefined;
+};
+
+export const parseImageFormats = (value: any) => parseList(value, FORMAT_ALIASES);
+export const parseColorSpaces = (value: any) => parseList(value, COLOR_SPACE_ALIASES);
+
+const parsePixels = (value: any): number | undefined => {
+  const match = String(value ?? '').match(/\d+/);
+  return match && Number(match[0]) > 0 ? Number(match[0]) : undefined;
+};
+
+// --- Spec Columns ---
+
+export type ImageRuleColumns = Partial<Record<keyof ImageRules, string>>;
+
+// Pixel columns must say so ("Min Width (px)", "Image Height"), otherwise they are product dimensions
+const IMAGE_HEADER = /\b(px|pixels?|image|img|photo)\b/i;
+
+export const findImageRuleColumns = (keys: string[]): ImageRuleColumns => {
+  const find = (test: (key: string) => boolean) => keys.find(k => test(k.trim()));
+  const columns: ImageRuleColumns = {
+    minWidth: find(k => IMAGE_HEADER.test(k) && /width|\bw\b/i.test(k)),
+    minHeight: find(k => IMAGE_HEADER.test(k) && /height|\bh\b/i.test(k)),
+    aspectRatio: find(k => /aspect/i.test(k)),
+    maxFileSizeKb: find(k => /file\s*size|(image|img)\s*size/i.test(k)),
+    formats: find(k => /^((image|img|file)\s*)?formats?$/i.test(k)),
+    colorSpaces: find(k => /colou?r\s*(space|mode|profile)/i.test(k)),
+  };
+  (Object.keys(columns) as (keyof ImageRules)[]).forEach(rule => { if (!columns[rule]) delete columns[rule]; });
+  return columns;
+};
+
+export const readImageRules = (row: Record<string, any>, columns: ImageRuleColumns): ImageRules | undefined => {
+  const cell = (rule: keyof ImageRules) => {
+    const key = columns[rule];
+    return key && row[key] !== undefined && String(row[key]).trim() !== '' ? row[key] : undefined;
+  };
+  const rules: ImageRules = {
+    minWidth: parsePixels(cell('minWidth')),
+    minHeight: parsePixels(cell('minHeight')),
+    aspectRatio: parseAspectRatio(cell('aspectRatio')),
+    maxFileSizeKb: parseFileSizeKb(cell('maxFileSizeKb'), columns.maxFileSizeKb),
+    formats: parseImageFormats(cell('formats')),
+    colorSpaces: parseColorSpaces(cell('colorSpaces')),
+  };
+  (Object.keys(rules) as (keyof ImageRules)[]).forEach(rule => { if (rules[rule] === undefined) delete rules[rule]; });
+  return hasImageRules(rules) ? rules : undefined;
+};
+
+// --- Checks ---
+
+export const hasImageRules = (rules?: ImageRules): rules is ImageRules =>
+  !!rules && Object.values(rules).some(value => value !== undefined);
+
+// Product columns override the global settings field by field. With several matched rows
+// (size variants) the first one that has image columns applies.
+export const resolveImageRules = (globalRules: ImageRules | undefined, specs: SpecRow[]): ImageRules => ({
+  ...globalRules,
+  ...specs.find(spec => spec.imageRules)?.imageRules,
+});
+
+export const formatFileSize = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${Number((bytes / 1024 / 1024).toFixed(1))} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+// "1200×800 JPEG RGB, 420 KB, 300 dpi"
+export const formatImageInfo = (info: ImageInfo): string =>
+  [
+    `${info.width}×${info.height} ${info.format.toUpperCase()}${info.colorSpace ? ` ${info.colorSpace.toUpperCase()}` : ''}`,
+    formatFileSize(info.fileSize),
+    info.dpi ? `${info.dpi} dpi` : '',
+  ].filter(Boolean).join(', ');
+
+export const checkImage = (info: ImageInfo | undefined, rules: ImageRules): ImageCheckResult => {
+  if (!info) {
+    return { status: 'UNREADABLE', failures: ['Not a readable PNG, JPEG, GIF or WebP file'], rules };
+  }
+
+  const failures: string[] = [];
+  if (rules.minWidth && info.width < rules.minWidth) {
+    failures.push(`Width ${info.width}px is below ${rules.minWidth}px`);
+  }
+  if (rules.minHeight && info.height < rules.minHeight) {
+    failures.push(`Height ${info.height}px is below ${rules.minHeight}px`);
+  }
+  // Exact up to rounding: 1000×667 passes 3:2
+  if (rules.aspectRatio && Math.abs(info.width - info.height * rules.aspectRatio) > Math.max(1, rules.aspectRatio)) {
+    failures.push(`Aspect ratio ${formatAspectRatio(info.width / info.height)} is not ${formatAspectRatio(rules.aspectRatio)}`);
+  }
+  if (rules.maxFileSizeKb && info.fileSize / 1024 > rules.maxFileSizeKb) {
+    failures.push(`File size ${formatFileSize(info.fileSize)} exceeds ${formatFileSize(rules.maxFileSizeKb * 1024)}`);
+  }
+  if (rules.formats?.length && !rules.formats.includes(info.format)) {
+    failures.push(`Format ${info.format.toUpperCase()} is not allowed (${rules.formats.map(f => f.toUpperCase()).join(', ')})`);
+  }
+  if (rules.colorSpaces?.length && (!info.colorSpace || !rules.colorSpaces.includes(info.colorSpace))) {
+    failures.push(`Colour space ${info.colorSpace?.toUpperCase() || 'unknown'} is not allowed (${rules.colorSpaces.map(c => c.toUpperCase()).join(', ')})`);
+  }
+
+  return { status: failures.length > 0 ? 'FAIL' : 'PASS', failures, rules };
+};
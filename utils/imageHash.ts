@@ -0,0 +1,84 @@
+import { BatchItem, DuplicateConfig } from '../types';
+import { renderImage, readPixels } from './imageCanvas';
+
+export const DEFAULT_DUPLICATE_CONFIG: DuplicateConfig = {
+  enabled: true,
+  maxDistance: 4,
+  reuseResults: false,
+};
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+// Rendered larger and box-averaged here, so the hash doesn't depend on the browser's downscaler
+const SAMPLE = 8;
+
+// dHash: 9×8 grey thumbnail, one bit per pixel for "brighter than its right-hand neighbour".
+// Survives resizing, re-encoding and small crops; `data` is RGBA at (9×8)·SAMPLE.
+export const differenceHash = (data: Uint8ClampedArray): string => {
+  const width = HASH_WIDTH * SAMPLE;
+  const grey = new Float32Array(HASH_WIDTH * HASH_HEIGHT);
+  for (let y = 0; y < HASH_HEIGHT * SAMPLE; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      grey[Math.floor(y / SAMPLE) * HASH_WIDTH + Math.floor(x / SAMPLE)] +=
+        0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    }
+  }
+
+  let hex = '';
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let byte = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      byte = (byte << 1) | (grey[y * HASH_WIDTH + x] > grey[y * HASH_WIDTH + x + 1] ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+};
+
+export const computeImageHash = async (file: Blob): Promise<string | undefined> => {
+  const canvas = await renderImage(file, () => ({ width: HASH_WIDTH * SAMPLE, height: HASH_HEIGHT * SAMPLE }));
+  return canvas ? differenceHash(readPixels(canvas)) : undefined;
+};
+
+// Number of differing bits between two hex hashes of the same length
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+// Greedy grouping in folder order: each image joins the first earlier group whose first
+// image is within maxDistance. Unhashed images, or detection turned off, clear duplicateOf.
+export const groupDuplicates = (items: BatchItem[], config: DuplicateConfig): BatchItem[] => {
+  const firsts: BatchItem[] = [];
+  return items.map(item => {
+    const first = config.enabled && item.imageHash
+      ? firsts.find(other => hammingDistance(other.imageHash!, item.imageHash!) <= config.maxDistance)
+      : undefined;
+    if (!first && config.enabled && item.imageHash) firsts.push(item);
+    if (item.duplicateOf === first?.id) return item;
+    return { ...item, duplicateOf: first?.id };
+  });
+};
+
+// Groups with more than one image, keyed by the first image's id, members in folder order
+export const listDuplicateGroups = (items: BatchItem[]): Map<string, BatchItem[]> => {
+  const groups = new Map<string, BatchItem[]>();
+  items.forEach(item => {
+    if (!item.duplicateOf) return;
+    if (!groups.has(item.duplicateOf)) {
+      const first = items.find(other => other.id === item.duplicateOf);
+      if (!first) return;
+      groups.set(item.duplicateOf, [first]);
+    }
+    groups.get(item.duplicateOf)!.push(item);
+  });
+  return groups;
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { UploadConfig } from '../types';
+import { DEFAULT_UPLOAD_CONFIG, planTiles } from './imagePreprocess';
+
+const tiled = (overrides: Partial<UploadConfig> = {}): UploadConfig => ({
+  ...DEFAULT_UPLOAD_CONFIG,
+  tiling: true,
+  tileAspect: 2.5,
+  tileOverlap: 0.15,
+  ...overrides,
+});
+
+describe('planTiles', () => {
+  it.each([
+    ['tiling off', 3000, 1000, { tiling: false }],
+    ['below the tile aspect', 2400, 1000, {}],
+    ['empty image', 3000, 0, {}],
+  ])('keeps one full crop when %s', (_, width, height, overrides) => {
+    expect(planTiles(width, height, tiled(overrides))).toEqual([{ x: 0, y: 0, width, height }]);
+  });
+
+  it('cuts a wide drawing into overlapping crops that cover it edge to edge', () => {
+    const tiles = planTiles(3000, 1000, tiled());
+    expect(tiles).toEqual([
+      { x: 0, y: 0, width: 845, height: 1000 },
+      { x: 718, y: 0, width: 845, height: 1000 },
+      { x: 1437, y: 0, width: 845, height: 1000 },
+      { x: 2155, y: 0, width: 845, height: 1000 },
+    ]);
+  });
+
+  it('cuts a tall drawing along its height', () => {
+    const tiles = planTiles(1000, 3000, tiled());
+    expect(tiles).toHaveLength(4);
+    expect(tiles.every(t => t.x === 0 && t.width === 1000)).toBe(true);
+    expect(tiles[0].y).toBe(0);
+    expect(tiles[3].y + tiles[3].height).toBe(3000);
+  });
+
+  it('overlaps each pair of neighbours by the configured share of a crop', () => {
+    const tiles = planTiles(10_000, 1000, tiled({ tileOverlap: 0.2 }));
+    for (let i = 1; i < tiles.length; i++) {
+      const overlap = tiles[i - 1].x + tiles[i - 1].width - tiles[i].x;
+      expect(overlap / tiles[i].width).toBeCloseTo(0.2, 2);
+    }
+    expect(tiles[tiles.length - 1].x + tiles[tiles.length - 1].width).toBe(10_000);
+  });
+
+  it('tiles from the configured aspect on', () => {
+    expect(planTiles(2499, 1000, tiled())).toHaveLength(1);
+    expect(planTiles(2500, 1000, tiled())).toHaveLength(3);
+  });
+
+  it('caps the overlap at half a crop', () => {
+    const tiles = planTiles(3000, 1000, tiled({ tileOverlap: 0.9 }));
+    expect(tiles[0].x + tiles[0].width - tiles[1].x).toBeLessThanOrEqual(Math.ceil(tiles[0].width / 2));
+  });
+});
@@ -0,0 +1,94 @@
+import { PreparedImage, UploadConfig, UploadFormat } from '../types';
+import { CropRect, decodeImage, drawToCanvas, blobToBase64, canvasToBlob } from './imageCanvas';
+
+export const DEFAULT_UPLOAD_CONFIG: UploadConfig = {
+  maxEdge: 3072,
+  format: 'original',
+  quality: 0.92,
+  tiling: false,
+  tileAspect: 2.5,
+  tileOverlap: 0.15,
+};
+
+export const UPLOAD_MIME_TYPES: Record<Exclude<UploadFormat, 'original'>, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+// Formats a canvas can write; other originals (GIF, BMP) become PNG when they have to be re-encoded
+const ENCODABLE_TYPES = Object.values(UPLOAD_MIME_TYPES);
+
+// Crops along the long side, each roughly square, with `tileOverlap` of every crop repeated in
+// the next so a callout cut by one edge is whole in the neighbouring crop
+export const planTiles = (width: number, height: number, config: UploadConfig): CropRect[] => {
+  const long = Math.max(width, height);
+  const short = Math.min(width, height);
+  if (!config.tiling || short === 0 || long / short < config.tileAspect) {
+    return [{ x: 0, y: 0, width, height }];
+  }
+
+  const overlap = Math.min(0.5, Math.max(0, config.tileOverlap));
+  const count = Math.max(2, Math.ceil((long / short - overlap) / (1 - overlap)));
+  // n crops of length L overlapping by L·overlap cover n·L − (n−1)·L·overlap = long
+  const length = long / (count - (count - 1) * overlap);
+  const step = length * (1 - overlap);
+
+  return Array.from({ length: count }, (_, i) => {
+    const start = Math.round(i * step);
+    const end = i === count - 1 ? long : Math.round(i * step + length);
+    return width >= height
+      ? { x: start, y: 0, width: end - start, height }
+      : { x: 0, y: start, width, height: end - start };
+  });
+};
+
+// Downscales to `maxEdge`, re-encodes and tiles as configured. Images that need none of that,
+// and files the browser can't decode, are sent unchanged.
+export const prepareImage = async (
+  file: Blob,
+  config: UploadConfig = DEFAULT_UPLOAD_CONFIG
+): Promise<PreparedImage[]> => {
+  const bitmap = await decodeImage(file);
+  if (!bitmap) return [{ data: await blobToBase64(file), mimeType: file.type }];
+
+  try {
+    const crops = planTiles(bitmap.width, bitmap.height, config);
+    const scaleFor = (crop: CropRect) =>
+      config.maxEdge > 0 ? Math.min(1, config.maxEdge / Math.max(crop.width, crop.height)) : 1;
+    const mimeType = config.format === 'original'
+      ? (ENCODABLE_TYPES.includes(file.type) ? file.type : 'image/png')
+      : UPLOAD_MIME_TYPES[config.format];
+
+    if (crops.length === 1 && scaleFor(crops[0]) === 1 && (config.format === 'original' || mimeType === file.type)) {
+      return [{ data: await blobToBase64(file), mimeType: file.type, width: bitmap.width, height: bitmap.height }];
+    }
+
+    // One crop at a time, so only one full-size canvas is alive
+    const parts: PreparedImage[] = [];
+    for (const [index, crop] of crops.entries()) {
+      const scale = scaleFor(crop);
+      const canvas = drawToCanvas(bitmap, crop.width * scale, crop.height * scale, crop);
+      if (!canvas) return [{ data: await blobToBase64(file), mimeType: file.type, width: bitmap.width, height: bitmap.height }];
+      const blob = await canvasToBlob(canvas, mimeType, config.quality);
+      parts.push({
+        data: await blobToBase64(blob),
+        mimeType,
+        width: canvas.width,
+        height: canvas.height,
+        ...(crops.length > 1 ? { tile: { index, count: crops.length } } : {}),
+      });
+    }
+    return parts;
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Base64 back to a Blob, for single-mode images that arrive as a data URL payload
+export const base64ToBlob = (data: string, mimeType: string): Blob => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
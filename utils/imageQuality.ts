@@ -0,0 +1,128 @@
+import { QualityConfig, QualityMetrics, QualityResult } from '../types';
+import { renderImage, fitToEdge, readPixels } from './imageCanvas';
+
+export const DEFAULT_QUALITY_CONFIG: QualityConfig = {
+  action: 'flag',
+  minSharpness: 100,
+  minContrast: 0.04,
+  minTextArea: 0.01,
+};
+
+// Metrics are measured on a copy scaled to this longest edge, so a 40 MP render costs the same as a thumbnail
+const ANALYSIS_EDGE = 1024;
+
+// Pixels further than this from the background luminance count as ink
+const INK_DISTANCE = 48;
+// Less ink than this share of the image is treated as blank
+const BLANK_INK_SHARE = 0.001;
+
+// Text and dimension lines show up as small blocks with a large light-dark range
+const TEXT_BLOCK = 16;
+const TEXT_BLOCK_RANGE = 96;
+
+// Works on RGBA pixels (ImageData.data); transparent areas should already be composited onto white
+export const measureQuality = (data: Uint8ClampedArray, width: number, height: number): QualityMetrics => {
+  const count = width * height;
+  const luma = new Float32Array(count);
+  const histogram = new Uint32Array(256);
+  let sum = 0;
+  let sumSq = 0;
+  for (let i = 0; i < count; i++) {
+    const l = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    luma[i] = l;
+    histogram[Math.min(255, Math.round(l))]++;
+    sum += l;
+    sumSq += l * l;
+  }
+  const mean = sum / count;
+  const contrast = Math.sqrt(Math.max(0, sumSq / count - mean * mean)) / 255;
+
+  // The median is the background on drawings, which are mostly paper
+  let background = 0;
+  for (let seen = 0; background < 255 && seen + histogram[background] <= count / 2; background++) {
+    seen += histogram[background];
+  }
+  let ink = 0;
+  for (let i = 0; i < count; i++) {
+    if (Math.abs(luma[i] - background) > INK_DISTANCE) ink++;
+  }
+
+  // Variance of the 4-neighbour Laplacian: edges stay steep in sharp images and flatten when blurred
+  let lapSum = 0;
+  let lapSumSq = 0;
+  let lapCount = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const lap = 4 * luma[i] - luma[i - 1] - luma[i + 1] - luma[i - width] - luma[i + width];
+      lapSum += lap;
+      lapSumSq += lap * lap;
+      lapCount++;
+    }
+  }
+  const lapMean = lapCount > 0 ? lapSum / lapCount : 0;
+  const sharpness = lapCount > 0 ? lapSumSq / lapCount - lapMean * lapMean : 0;
+
+  let blocks = 0;
+  let textBlocks = 0;
+  for (let by = 0; by < height; by += TEXT_BLOCK) {
+    for (let bx = 0; bx < width; bx += TEXT_BLOCK) {
+      let min = 255;
+      let max = 0;
+      for (let y = by; y < Math.min(by + TEXT_BLOCK, height); y++) {
+        for (let x = bx; x < Math.min(bx + TEXT_BLOCK, width); x++) {
+          const l = luma[y * width + x];
+          if (l < min) min = l;
+          if (l > max) max = l;
+        }
+      }
+      blocks++;
+      if (max - min > TEXT_BLOCK_RANGE) textBlocks++;
+    }
+  }
+
+  return {
+    sharpness: Math.round(sharpness),
+    contrast: Math.round(contrast * 1000) / 1000,
+    textArea: blocks > 0 ? Math.round((textBlocks / blocks) * 1000) / 1000 : 0,
+    blank: ink / count < BLANK_INK_SHARE,
+  };
+};
+
+// Undefined when the browser can't decode the file; the image is then sent as before
+export const measureImageQuality = async (file: Blob): Promise<QualityMetrics | undefined> => {
+  const canvas = await renderImage(file, fitToEdge(ANALYSIS_EDGE));
+  return canvas ? measureQuality(readPixels(canvas), canvas.width, canvas.height) : undefined;
+};
+
+const percent = (share: number) => `${Number((share * 100).toFixed(1))}%`;
+
+// Failures are worked out from stored metrics, so changed thresholds apply without decoding again
+export const checkQuality = (metrics: QualityMetrics, config: QualityConfig): string[] => {
+  if (metrics.blank) return ['Blank or single-colour image'];
+
+  const failures: string[] = [];
+  if (metrics.sharpness < config.minSharpness) {
+    failures.push(`Blurry: sharpness ${metrics.sharpness} < ${config.minSharpness}`);
+  }
+  if (metrics.contrast < config.minContrast) {
+    failures.push(`Low contrast: ${metrics.contrast} < ${config.minContrast}`);
+  }
+  if (metrics.textArea < config.minTextArea) {
+    failures.push(`Little text or linework: ${percent(metrics.textArea)} < ${percent(config.minTextArea)}`);
+  }
+  return failures;
+};
+
+export const formatQualityMetrics = (metrics: QualityMetrics): string =>
+  `sharpness ${metrics.sharpness}, contrast ${metrics.contrast}, text ${percent(metrics.textArea)}${metrics.blank ? ', blank' : ''}`;
+
+export const assessImageQuality = async (
+  file: Blob,
+  config: QualityConfig,
+  previous?: QualityResult
+): Promise<QualityResult | undefined> => {
+  const metrics = previous?.metrics || await measureImageQuality(file);
+  if (!metrics) return undefined;
+  return { metrics, failures: checkQuality(metrics, config), ...(previous?.accepted ? { accepted: true } : {}) };
+};
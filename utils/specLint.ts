@@ -0,0 +1,114 @@
+import { utils, write } from 'xlsx';
+import { SpecRow, SpecIssue, SpecIssueCheck } from '../types';
+
+export const SPEC_CHECK_LABELS: Record<SpecIssueCheck, string> = {
+  DUPLICATE_SLUG: 'Duplicate product',
+  SLUG_COLLISION: 'Colliding names',
+  SLUG_SUBSTRING: 'Overlapping names',
+  NO_DIMENSIONS: 'No dimensions',
+  MISSING_NAME: 'Missing product name',
+  OUT_OF_BOUNDS: 'Implausible value',
+  NON_NUMERIC: 'Non-numeric text',
+  AMBIGUOUS_NUMBER: 'Ambiguous number',
+};
+
+const describeRow = (spec: SpecRow): string =>
+  [spec.sheet, spec.rowNumber ? `row ${spec.rowNumber}` : ''].filter(Boolean).join(' ');
+
+// Cross-row checks on parsed specs, merged with the per-cell issues collected while parsing.
+// Errors first, then by sheet and row so the report reads top to bottom like the workbook.
+export const lintSpecs = (specs: SpecRow[], parseIssues: SpecIssue[] = []): SpecIssue[] => {
+  const issues: SpecIssue[] = [...parseIssues];
+
+  const bySlug = new Map<string, SpecRow[]>();
+  specs.forEach(spec => {
+    const group = bySlug.get(spec.productSlug) || [];
+    group.push(spec);
+    bySlug.set(spec.productSlug, group);
+  });
+
+  bySlug.forEach((group, slug) => {
+    if (group.length < 2) return;
+
+    // Same slug and size: a matching image is validated against every copy
+    const bySize = new Map<string, SpecRow[]>();
+    group.forEach(spec => {
+      const key = spec.size.toLowerCase();
+      bySize.set(key, [...(bySize.get(key) || []), spec]);
+    });
+    bySize.forEach(rows => {
+      if (rows.length < 2) return;
+      rows.slice(1).forEach(spec => issues.push({
+        check: 'DUPLICATE_SLUG',
+        severity: 'error',
+        sheet: spec.sheet,
+        rowNumber: spec.rowNumber,
+        productName: spec.productName,
+        message: `Same product${spec.size ? ` and size "${spec.size}"` : ''} as ${describeRow(rows[0])}`
+      }));
+    });
+
+    // Differently written names ("Side-Table" / "Side Table") that the matcher can't tell apart
+    const names = Array.from(new Set(group.map(spec => spec.productName)));
+    if (names.length > 1) {
+      const first = group[0];
+      issues.push({
+        check: 'SLUG_COLLISION',
+        severity: 'warning',
+        sheet: first.sheet,
+        rowNumber: first.rowNumber,
+        productName: first.productName,
+        message: `${names.map(n => `"${n}"`).join(', ')} ${names.length === 2 ? 'both' : 'all'} match files as "${slug}"`
+      });
+    }
+  });
+
+  // A slug inside a longer one matches the same files; the longest slug wins, but both are returned
+  const slugs = Array.from(bySlug.keys()).sort((a, b) => a.length - b.length);
+  slugs.forEach((slug, i) => {
+    const containers = slugs.slice(i + 1).filter(other => other.length > slug.length && other.includes(slug));
+    if (containers.length === 0) return;
+    const spec = bySlug.get(slug)![0];
+    const shown = containers.slice(0, 3).map(other => `"${bySlug.get(other)![0].productName}"`).join(', ');
+    issues.push({
+      check: 'SLUG_SUBSTRING',
+      severity: 'warning',
+      sheet: spec.sheet,
+      rowNumber: spec.rowNumber,
+      productName: spec.productName,
+      message: `Also matches files for ${shown}${containers.length > 3 ? ` and ${containers.length - 3} more` : ''}`
+    });
+  });
+
+  return issues.sort((a, b) =>
+    (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1) ||
+    (a.sheet || '').localeCompare(b.sheet || '') ||
+    (a.rowNumber || 0) - (b.rowNumber || 0)
+  );
+};
+
+export const downloadSpecLintReport = (issues: SpecIssue[], specFileName?: string) => {
+  const rows = issues.map(issue => ({
+    'Severity': issue.severity.toUpperCase(),
+    'Check': SPEC_CHECK_LABELS[issue.check],
+    'Sheet': issue.sheet || '',
+    'Row': issue.rowNumber ?? '',
+    'Column': issue.column || '',
+    'Product': issue.productName || '',
+    'Details': issue.message
+  }));
+
+  const worksheet = utils.json_to_sheet(rows);
+  const workbook = utils.book_new();
+  utils.book_append_sheet(workbook, worksheet, "Spec Lint");
+
+  const excelBuffer = write(workbook, { bookType: 'xlsx', type: 'array' });
+  const blob = new Blob([excelBuffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  const stem = specFileName ? specFileName.replace(/\.[^/.]+$/, '') + '_' : '';
+  link.download = `${stem}Spec_Lint_${new Date().toISOString().slice(0,19).replace(/:/g,'-')}.xlsx`;
+  link.click();
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { SpecRow } from '../types';
+import { toSlug } from './validation';
+import { matchSpecs } from './specMatching';
+
+const spec = (productName: string, sku?: string, size = ''): SpecRow => ({
+  productName,
+  productSlug: toSlug(productName),
+  size,
+  ...(sku ? { sku } : {}),
+  expectedDimensions: [],
+  dimensions: [],
+  originalRow: {},
+});
+
+const SPECS = [
+  spec('Mardi Side Table'),
+  spec('Side Table', '2024'),
+  spec('Bar Stool', '100'),
+  spec('Lounge Chair', 'LC-100'),
+  spec('Mardi Marble Side Table'),
+];
+
+const names = (fileName: string) => matchSpecs(fileName, SPECS)?.specs.map(s => s.productName);
+
+describe('matchSpecs', () => {
+  it('prefers the longest product slug the file name contains', () => {
+    expect(matchSpecs('mardi-side-table-front.jpg', SPECS)).toMatchObject({ strategy: 'exact', reason: 'exact slug' });
+    expect(names('mardi-side-table-front.jpg')).toEqual(['Mardi Side Table', 'Side Table']);
+  });
+
+  it('lets longer typo\'d or reordered names beat exact hits on shorter ones', () => {
+    expect(names('mardi-marbel-side-table.jpg')?.[0]).toBe('Mardi Marble Side Table');
+    expect(names('side-table-mardi-marble.jpg')?.[0]).toBe('Mardi Marble Side Table');
+  });
+});
+
+describe('SKU lookup', () => {
+  it('does not let a numeric SKU override the product the name spells out', () => {
+    expect(matchSpecs('mardi-side-table-2024-v2.jpg', SPECS)).toMatchObject({ strategy: 'exact' });
+    expect(names('mardi-side-table-2024-v2.jpg')?.[0]).toBe('Mardi Side Table');
+  });
+
+  it('ignores numeric SKUs that are really sizes', () => {
+    expect(names('side-table-100-x-50.jpg')?.[0]).toBe('Side Table');
+  });
+
+  it('keeps only the longest SKU in the name', () => {
+    expect(matchSpecs('LC-100_front.png', SPECS)).toMatchObject({ strategy: 'sku', reason: 'SKU LC-100' });
+    expect(names('LC-100_front.png')).toEqual(['Lounge Chair']);
+  });
+
+  it('trusts a numeric SKU from the filename rules', () => {
+    const rules = { stripPrefixes: [], stripSuffixes: [], patterns: ['^(?<sku>\\d+)_'] };
+    expect(matchSpecs('100_front.png', SPECS, undefined, rules)).toMatchObject({ strategy: 'sku', reason: 'SKU 100' });
+  });
+
+  it('uses a SKU to pick the row within the named product', () => {
+    const sized = [spec('Lounge Chair', 'LC-100-S', 'Small'), spec('Lounge Chair', 'LC-100-L', 'Large')];
+    expect(matchSpecs('lounge-chair-LC-100-L.jpg', sized)?.specs.map(s => s.size)).toEqual(['Large']);
+  });
+});
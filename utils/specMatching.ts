@@ -0,0 +1,173 @@
+import { SpecRow, MatchConfig, SpecMatchResult, FilenameRules, FilenameKey } from '../types';
+import { toSlug, findSpecsBySlug } from './validation';
+import { parseFilename } from './filenameRules';
+
+export const DEFAULT_MATCH_CONFIG: MatchConfig = {
+  skuLookup: true,
+  tokenMatch: true,
+  tokenThreshold: 0.75,
+  fuzzyMatch: true,
+  fuzzyThreshold: 0.85,
+};
+
+// Shorter codes ("01", "A2") turn up in file names by accident
+const MIN_SKU_LENGTH = 3;
+
+const hasLetter = (slug: string) => /[a-z]/.test(slug);
+
+const roundScore = (score: number) => Math.round(score * 100) / 100;
+
+const letterCount = (slug: string) => slug.replace(/-/g, '').length;
+
+const groupBySlug = (specs: SpecRow[]): Map<string, SpecRow[]> => {
+  const groups = new Map<string, SpecRow[]>();
+  specs.forEach(spec => {
+    if (!spec.productSlug) return;
+    groups.set(spec.productSlug, [...(groups.get(spec.productSlug) || []), spec]);
+  });
+  return groups;
+};
+
+const levenshtein = (a: string, b: string): number => {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+// Best similarity between the slug and any run of file words of about the same length,
+// so extra words in the file name ("-front-02") don't count against the match
+const windowSimilarity = (fileTokens: string[], slug: string): number => {
+  const words = slug.split('-').length;
+  let best = 0;
+  for (let size = Math.max(1, words - 1); size <= words + 1; size++) {
+    for (let start = 0; start + size <= fileTokens.length; start++) {
+      const window = fileTokens.slice(start, start + size).join('-');
+      const maxLen = Math.max(window.length, slug.length);
+      // The length difference alone caps the similarity; skip windows that can't beat the best
+      if (1 - Math.abs(window.length - slug.length) / maxLen <= best) continue;
+      best = Math.max(best, 1 - levenshtein(window, slug) / maxLen);
+    }
+  }
+  return best;
+};
+
+// Share of the product name's words that appear anywhere in the file name
+const tokenCoverage = (fileTokens: Set<string>, slug: string): number => {
+  const words = Array.from(new Set(slug.split('-')));
+  return words.filter(word => fileTokens.has(word)).length / words.length;
+};
+
+// With a size from the filename rules, keep only the rows of that size (when any exist)
+const narrowBySize = (result: SpecMatchResult): SpecMatchResult => {
+  if (!result.key.size) return result;
+  const sizeSlug = toSlug(result.key.size);
+  const sized = result.specs.filter(spec => toSlug(spec.size) === sizeSlug);
+  return sized.length > 0 ? { ...result, specs: sized, reason: `${result.reason}, size ${result.key.size}` } : result;
+};
+
+// A SKU group from the filename rules must equal a row's SKU. Otherwise a SKU counts when it
+// appears as whole words in the stem and contains a letter, since bare numbers ("2024", "100")
+// are as likely a year, version or size; only the longest such SKU is kept, so "LC-100" doesn't
+// also pull in "100".
+const findSpecsBySku = (key: FilenameKey, specs: SpecRow[]): SpecRow[] => {
+  if (key.sku) {
+    const keySku = toSlug(key.sku);
+    return specs.filter(spec => spec.sku && toSlug(spec.sku) === keySku);
+  }
+
+  const bounded = `-${toSlug(key.stem)}-`;
+  const found = specs.filter(spec => {
+    const skuSlug = spec.sku ? toSlug(spec.sku) : '';
+    return skuSlug.length >= MIN_SKU_LENGTH && hasLetter(skuSlug) && bounded.includes(`-${skuSlug}-`);
+  });
+  const longest = Math.max(0, ...found.map(spec => toSlug(spec.sku!).length));
+  return found.filter(spec => toSlug(spec.sku!).length === longest);
+};
+
+const matchKey = (key: FilenameKey, specs: SpecRow[], config: MatchConfig): SpecMatchResult | null => {
+  const fileSlug = toSlug(key.product || key.stem);
+  if (!fileSlug || specs.length === 0) return null;
+
+  const exact = findSpecsBySlug(fileSlug, specs);
+
+  const bySku = config.skuLookup || key.sku ? findSpecsBySku(key, specs) : [];
+  // A SKU picks the exact row, but never another product than the one the name spells out
+  if (bySku.length > 0 && (exact.length === 0 || bySku.some(spec => spec.productSlug === exact[0].productSlug))) {
+    const specsForSku = exact.length > 0 ? bySku.filter(spec => spec.productSlug === exact[0].productSlug) : bySku;
+    return { specs: specsForSku, strategy: 'sku', score: 1, reason: `SKU ${specsForSku[0].sku}`, key };
+  }
+
+  const groups = groupBySlug(specs);
+  const fileTokens = fileSlug.split('-');
+  const fileTokenSet = new Set(fileTokens);
+
+  // `covered` is how many letters of the file name the candidate accounts for, so a typo'd or
+  // reordered long name ("mardi-marbel-side-table") beats an exact hit on a generic one ("side-table")
+  type Candidate = { slug: string; strategy: SpecMatchResult['strategy']; score: number; covered: number };
+  const candidates: Candidate[] = exact.length > 0
+    ? [{ slug: exact[0].productSlug, strategy: 'exact', score: 1, covered: letterCount(exact[0].productSlug) }]
+    : [];
+
+  if (config.tokenMatch) {
+    groups.forEach((_, slug) => {
+      if (!slug.includes('-') || fileSlug.includes(slug)) return; // Single words and exact hits are covered above
+      const score = tokenCoverage(fileTokenSet, slug);
+      const covered = letterCount(slug.split('-').filter(word => fileTokenSet.has(word)).join(''));
+      if (score >= config.tokenThreshold) candidates.push({ slug, strategy: 'token', score, covered });
+    });
+  }
+
+  // Typos only lose to a candidate that already accounts for the whole file name
+  if (config.fuzzyMatch && !candidates.some(c => c.score === 1 && c.covered >= letterCount(fileSlug))) {
+    groups.forEach((_, slug) => {
+      if (fileSlug.includes(slug)) return;
+      const score = windowSimilarity(fileTokens, slug);
+      if (score >= config.fuzzyThreshold) candidates.push({ slug, strategy: 'fuzzy', score, covered: letterCount(slug) * score });
+    });
+  }
+
+  if (candidates.length === 0) return null;
+
+  candidates.sort((a, b) => (b.covered - a.covered) || (b.score - a.score) || (b.slug.length - a.slug.length));
+  const best = candidates[0];
+
+  if (best.strategy === 'exact') {
+    return { specs: exact, strategy: 'exact', score: 1, reason: 'exact slug', key };
+  }
+
+  // Exact containment hits are still valid matches, so keep them after the winning product
+  const winners = groups.get(best.slug) || [];
+  const score = roundScore(best.score);
+  return {
+    specs: [...winners, ...exact.filter(spec => !winners.includes(spec))],
+    strategy: best.strategy,
+    score,
+    reason: `${best.strategy === 'token' ? 'tokens' : 'fuzzy'} ${score.toFixed(2)}`,
+    key
+  };
+};
+
+// Matching order:
+// 1. SKU / item code found as whole words in the file name (picks the exact row, not just the product),
+//    unless the name spells out a different product
+// 2. Exact slug containment, plus word-set overlap for reordered or partial names
+// 3. Edit distance for typos, unless a full match above already accounts for the whole file name
+// Among candidates the one accounting for more of the file name wins, then the higher score,
+// then the longer (more specific) product slug.
+// Filename rules run first: a product group replaces the file stem, a SKU group must equal a row's SKU.
+export const matchSpecs = (
+  fileName: string,
+  specs: SpecRow[],
+  config: MatchConfig = DEFAULT_MATCH_CONFIG,
+  rules?: FilenameRules
+): SpecMatchResult | null => {
+  const key = parseFilename(fileName, rules);
+  const result = matchKey(key, specs, config);
+  return result && narrowBySize(result);
+};
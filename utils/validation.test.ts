@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { DimensionLabel, DimensionUnit, GeminiResponse, Measurement, SpecDimension, SpecRow } from '../types';
+import { validateDimensions } from './validation';
+
+const dim = (value: number, label?: DimensionLabel, max?: number): SpecDimension => ({
+  value,
+  ...(max !== undefined ? { max } : {}),
+  column: 'B',
+  header: label || 'Size',
+  ...(label ? { label } : {}),
+});
+
+const spec = (dimensions: SpecDimension[], unit?: DimensionUnit): SpecRow => ({
+  productName: 'Side Table',
+  productSlug: 'side-table',
+  size: '',
+  expectedDimensions: dimensions.map(d => d.value),
+  dimensions,
+  ...(unit ? { unit } : {}),
+  originalRow: {},
+});
+
+const detected = (measurements: Measurement[], units = 'inches'): Pick<GeminiResponse, 'dimensions' | 'units' | 'measurements'> => ({
+  measurements,
+  dimensions: measurements.map(m => m.value),
+  units,
+});
+
+describe('validateDimensions', () => {
+  it('pairs values by axis label first', () => {
+    const result = validateDimensions(
+      detected([{ value: 24, label: 'height' }, { value: 24.2, label: 'width' }]),
+      spec([dim(24, 'width'), dim(24.3, 'height')])
+    );
+    expect(result.status).toBe('PERFECT');
+    expect(result.matches.map(m => [m.label, m.expected, m.detected])).toEqual([['width', 24, 24.2], ['height', 24.3, 24]]);
+  });
+
+  it('reports a same-axis value outside tolerance as a mismatch, not a missing value', () => {
+    const result = validateDimensions(detected([{ value: 31.5, label: 'height' }]), spec([dim(30, 'height')]));
+    expect(result.status).toBe('MISMATCH');
+    expect(result.mismatches).toMatchObject([{ label: 'height', expected: 30, detected: 31.5, diff: 1.5 }]);
+    expect(result.missing).toEqual([]);
+  });
+
+  it('falls back to the nearest unlabeled value for labels the drawing did not give', () => {
+    const result = validateDimensions(
+      detected([{ value: 18.2 }, { value: 30, label: 'height' }]),
+      spec([dim(18, 'width'), dim(30, 'height')])
+    );
+    expect(result.status).toBe('PERFECT');
+    expect(result.matches.find(m => m.expected === 18)).toMatchObject({ detected: 18.2 });
+    expect(result.matches.find(m => m.expected === 18)?.label).toBeUndefined();
+  });
+
+  it('never pairs two different labels in the fallback', () => {
+    const result = validateDimensions(detected([{ value: 18, label: 'depth' }]), spec([dim(18, 'width')]));
+    expect(result.status).toBe('MISMATCH');
+    expect(result.missing).toEqual([18]);
+    expect(result.extra).toEqual([18]);
+  });
+
+  it('matches unlabeled specs against any detected value', () => {
+    const result = validateDimensions(detected([{ value: 30, label: 'height' }, { value: 18 }]), spec([dim(18), dim(30)]));
+    expect(result.status).toBe('PERFECT');
+  });
+
+  it('accepts anything inside a range and applies tolerance beyond its ends', () => {
+    const range = spec([dim(24, 'height', 26)]);
+    expect(validateDimensions(detected([{ value: 25, label: 'height' }]), range).matches)
+      .toMatchObject([{ expected: 24, expectedMax: 26, detected: 25, diff: 0 }]);
+    expect(validateDimensions(detected([{ value: 26.4, label: 'height' }]), range).status).toBe('PERFECT');
+    expect(validateDimensions(detected([{ value: 27, label: 'height' }]), range).mismatches)
+      .toMatchObject([{ expected: 24, expectedMax: 26, detected: 27, diff: 1 }]);
+  });
+
+  it('reports an unmatched range as a missing range', () => {
+    const result = validateDimensions(detected([]), spec([dim(24, undefined, 26), dim(18)]));
+    expect(result.status).toBe('MISSING');
+    expect(result.missingRanges).toEqual([{ min: 24, max: 26 }]);
+    expect(result.missing).toEqual([18]);
+  });
+
+  it('reports values the spec does not have as extra', () => {
+    const result = validateDimensions(detected([{ value: 18 }, { value: 42 }]), spec([dim(18)]));
+    expect(result.status).toBe('EXTRA');
+    expect(result.extra).toEqual([42]);
+  });
+
+  it('converts detected values into the spec unit', () => {
+    const result = validateDimensions(detected([{ value: 45.72, label: 'width' }], 'cm'), spec([dim(18, 'width')], 'in'));
+    expect(result.status).toBe('PERFECT');
+    expect(result.matches[0]).toMatchObject({ detected: 18, original: 45.72 });
+  });
+
+  it('uses the flat dimensions list when there are no measurements', () => {
+    const result = validateDimensions({ dimensions: [18, 30], measurements: [], units: 'inches' }, spec([dim(18, 'width'), dim(30, 'height')]));
+    expect(result.status).toBe('PERFECT');
+  });
+});
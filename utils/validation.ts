@@ -1,11 +1,27 @@
-import { read, utils } from 'xlsx';
-import { SpecRow, ValidationResult, ValidationConfig } from '../types';
+import { read, utils, Range, WorkBook, WorkSheet } from 'xlsx';
+import {
+  SpecRow, SpecDimension, ValidationResult, ValidationConfig, DimensionUnit, GeminiResponse, UnitConversion,
+  ToleranceRule, AppliedTolerance, DimensionLabel, Measurement, SpecSheetPreview, ColumnMapping, SpecIssue
+} from '../types';
+import { parseDimensionText, findNonDimensionText, findAmbiguousNumbers, detectNumberLocale } from './dimensionParser';
+import { findImageRuleColumns, readImageRules } from './imageChecks';
 
-const TOLERANCE = 0.5;
+const DEFAULT_TOLERANCE: ToleranceRule = { mode: 'absolute', value: 0.5 };
+
+// Spec values outside this open range are treated as typos or codes, not dimensions
+export const MIN_PLAUSIBLE_DIMENSION = 0;
+export const MAX_PLAUSIBLE_DIMENSION = 2000;
+
+// Millimetres per unit, used to convert AI values into the spec unit
+const MM_PER_UNIT: Record<DimensionUnit, number> = {
+  in: 25.4,
+  cm: 10,
+  mm: 1,
+};
 
 // --- 1. Normalization Logic (Slugify) ---
 // Rules: Lowercase, keep alphanumeric, replace all separators with single hyphen, trim ends.
-const toSlug = (text: string): string => {
+export const toSlug = (text: string): string => {
   if (!text) return '';
   return text.toLowerCase()
     // Replace non-alphanumeric characters with hyphens
@@ -25,105 +41,504 @@ const colLetterToIndex = (letter: string): number => {
   return result - 1;
 };
 
-// Helper: Extract all numbers from a string
-const extractNumbers = (value: any): number[] => {
-  if (typeof value === 'number') return [value];
-  if (!value) return [];
-  const str = String(value);
-  const matches = str.match(/-?\d*\.?\d+/g);
-  if (!matches) return [];
-  return matches.map(Number).filter(n => !isNaN(n));
+// Helper: Convert column index to Excel letter (0 -> A, 26 -> AA)
+const colIndexToLetter = (index: number): string => {
+  let letter = '';
+  let n = index + 1;
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    letter = String.fromCharCode(65 + rem) + letter;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letter;
+};
+
+// Helper: Map free-text unit labels ("inches", "\"", "CM", "millimeters") to a known unit
+export const normalizeUnit = (value: any): DimensionUnit | undefined => {
+  if (!value) return undefined;
+  const str = String(value).trim().toLowerCase();
+  if (/^(in|inch|inches|"|''|”)$/.test(str)) return 'in';
+  if (/^(cm|cms|centimet(er|re)s?)$/.test(str)) return 'cm';
+  if (/^(mm|millimet(er|re)s?)$/.test(str)) return 'mm';
+  return undefined;
+};
+
+// Helper: Map a spec header or AI label ("Overall Width", "W", "Seat Ht", "Ø") to an axis label.
+// Order matters: compound labels (seat/arm height) are checked before plain height.
+const LABEL_PATTERNS: [RegExp, DimensionLabel][] = [
+  [/seat[\s_-]*(height|ht|h)\b|^sh$/i, 'seat_height'],
+  [/arm[\s_-]*(height|ht|h)\b|^ah$/i, 'arm_height'],
+  [/diam|dia\b|^ø|^d\.?ia|^round$/i, 'diameter'],
+  [/width|wide|^w$/i, 'width'],
+  [/depth|deep|^d$/i, 'depth'],
+  [/height|high|tall|^ht$|^h$/i, 'height'],
+  [/length|long|^l$/i, 'length'],
+  [/thick|^t$/i, 'thickness'],
+];
+
+export const normalizeDimensionLabel = (value: any): DimensionLabel | undefined => {
+  if (!value) return undefined;
+  // Strip unit suffixes such as "Width (in)" or "H cm"
+  const str = String(value).trim().replace(/\((in|cm|mm|inches|")\)|\b(in|cm|mm)$/gi, '').trim();
+  if (!str) return undefined;
+  for (const [pattern, label] of LABEL_PATTERNS) {
+    if (pattern.test(str)) return label;
+  }
+  return undefined;
+};
+
+export const formatDimensionLabel = (label: DimensionLabel): string =>
+  label.split('_').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
+
+// Helper: Round converted values so 80 cm -> 31.5 in rather than 31.496062992...
+const roundDimension = (value: number): number => Math.round(value * 100) / 100;
+
+export const getUnitConversion = (from?: DimensionUnit, to?: DimensionUnit): UnitConversion | undefined => {
+  if (!from || !to || from === to) return undefined;
+  return { from, to, factor: MM_PER_UNIT[from] / MM_PER_UNIT[to] };
+};
+
+// Helper: Parse a tolerance cell or setting ("0.5", "±1", "2%") into a rule
+export const parseToleranceRule = (value: any): ToleranceRule | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'number') return value >= 0 ? { mode: 'absolute', value } : undefined;
+  const str = String(value).trim();
+  const match = str.match(/\d*\.?\d+/);
+  if (!match) return undefined;
+  const amount = Number(match[0]);
+  if (isNaN(amount)) return undefined;
+  return { mode: str.includes('%') ? 'percent' : 'absolute', value: amount };
+};
+
+// Helper: Parse per-column overrides written as "H=1, K=2%" into a letter-keyed map
+export const parseColumnTolerances = (text: string): Record<string, ToleranceRule> => {
+  const result: Record<string, ToleranceRule> = {};
+  text.split(/[,;\n]+/).forEach(entry => {
+    const [col, amount] = entry.split(/[=:]/).map(p => p.trim());
+    const rule = parseToleranceRule(amount);
+    if (col && /^[A-Za-z]+$/.test(col) && rule) result[col.toUpperCase()] = rule;
+  });
+  return result;
+};
+
+// "24" for a single value, "24–26" for a range
+export const formatExpected = (value: number, max?: number): string =>
+  max !== undefined ? `${value}–${max}` : String(value);
+
+// How far a detected value lies outside the expected value or range (0 anywhere inside a range)
+const distanceTo = (dim: SpecDimension, detected: number): number => {
+  if (dim.max === undefined) return Math.abs(dim.value - detected);
+  if (detected < dim.value) return dim.value - detected;
+  if (detected > dim.max) return detected - dim.max;
+  return 0;
+};
+
+export const formatToleranceRule = (rule: ToleranceRule): string =>
+  rule.mode === 'percent' ? `±${rule.value}%` : `±${rule.value}`;
+
+// Precedence: row tolerance column > per-column override > global setting > default
+const resolveTolerance = (dim: SpecDimension, spec: SpecRow, config?: ValidationConfig): AppliedTolerance => {
+  let rule = DEFAULT_TOLERANCE;
+  let source: AppliedTolerance['source'] = 'default';
+
+  if (spec.tolerance) {
+    rule = spec.tolerance;
+    source = 'row';
+  } else if (config?.columnTolerances?.[dim.column]) {
+    rule = config.columnTolerances[dim.column];
+    source = 'column';
+  } else if (config?.tolerance) {
+    rule = config.tolerance;
+    source = 'global';
+  }
+
+  const allowed = rule.mode === 'percent' ? Math.abs(dim.value) * rule.value / 100 : rule.value;
+  return { ...rule, source, allowed };
 };
 
 // --- 2. Spec Parsing (Pre-calculation) ---
-export const parseSpecFile = async (file: File, config?: ValidationConfig): Promise<SpecRow[]> => {
+export const readSpecWorkbook = (file: File): Promise<WorkBook> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
         const data = new Uint8Array(e.target?.result as ArrayBuffer);
-        const workbook = read(data, { type: 'array' });
-        const worksheet = workbook.Sheets[workbook.SheetNames[0]];
-        
-        const jsonData: any[] = utils.sheet_to_json(worksheet);
-
-        if (jsonData.length === 0) {
-            resolve([]);
-            return;
-        }
-
-        // Identify Product Name Column
-        const firstRow = jsonData[0];
-        const keys = Object.keys(firstRow);
-        
-        const productNamePatterns = [
-            /^product\s*name$/i, /^product$/i, /^model\s*name$/i, /^model$/i, /^item\s*name$/i, /^name$/i, /name/i
-        ];
-
-        let productNameKey = '';
-        for (const pattern of productNamePatterns) {
-            const match = keys.find(k => pattern.test(k.trim()));
-            if (match) {
-                productNameKey = match;
-                break;
-            }
-        }
-        if (!productNameKey) productNameKey = 'Product Name';
-
-        // Column Range Logic
-        const headers = (utils.sheet_to_json(worksheet, { header: 1 })[0] || []) as string[];
-        let allowedIndices: number[] = [];
-        if (config && config.startCol && config.endCol) {
-           const start = colLetterToIndex(config.startCol);
-           const end = colLetterToIndex(config.endCol);
-           for (let i = start; i <= end; i++) allowedIndices.push(i);
-        } else {
-           allowedIndices = headers.map((_, i) => i);
-        }
-        const allowedKeys = allowedIndices.map(i => headers[i]).filter(k => k !== undefined);
-
-        // Map Rows
-        const specs: SpecRow[] = jsonData.map(row => {
-          const productName = String(row[productNameKey] || '').trim();
-          
-          const sizeKey = keys.find(k => /^size$/i.test(k.trim()) || /^dimension$/i.test(k.trim())) || 'Size';
-          const size = row[sizeKey] || '';
-          
-          let expectedDimensions: number[] = [];
-          
-          Object.entries(row).forEach(([key, value]) => {
-             if (config && config.startCol) {
-                 if (!allowedKeys.includes(key)) return;
-             } else {
-                 const keyLower = key.toLowerCase();
-                 if (['product', 'name', 'size', 'id', 'model', 'row', 'sku'].some(k => keyLower.includes(k))) return;
-             }
-
-             const nums = extractNumbers(value);
-             nums.forEach(num => {
-                 if (num > 0 && num < 2000) expectedDimensions.push(num);
-             });
-          });
-
-          return {
-            productName: productName,
-            productSlug: toSlug(productName), // Pre-calculate slug here
-            size: String(size).trim(),
-            expectedDimensions: expectedDimensions.sort((a, b) => a - b),
-            originalRow: row
-          };
-        });
-
-        // Filter out empty rows
-        resolve(specs.filter(s => s.productName && s.productSlug.length > 0));
+        resolve(read(data, { type: 'array' }));
       } catch (err) {
         reject(err);
       }
     };
+    reader.onerror = () => reject(reader.error);
     reader.readAsArrayBuffer(file);
   });
 };
 
+export const listSpecSheets = async (file: File): Promise<string[]> => {
+  const workbook = await readSpecWorkbook(file);
+  return workbook.SheetNames;
+};
+
+const PRODUCT_NAME_PATTERNS = [
+  /^product\s*name$/i, /^product$/i, /^model\s*name$/i, /^model$/i, /^item\s*name$/i, /^name$/i, /name/i
+];
+
+// Header detection only looks this far down; title blocks are rarely taller
+const HEADER_SCAN_ROWS = 30;
+
+interface SheetGrid {
+  rows: any[][];     // Raw cell values, blank rows included so indices line up with the sheet
+  rowOffset: number; // Sheet row index (0-based) of rows[0]
+  colOffset: number; // Sheet column index (0-based) of rows[n][0]
+  merges: Range[];
+}
+
+const readSheetGrid = (worksheet: WorkSheet): SheetGrid => {
+  const ref = worksheet['!ref'];
+  if (!ref) return { rows: [], rowOffset: 0, colOffset: 0, merges: [] };
+  const range = utils.decode_range(ref);
+  const rows = utils.sheet_to_json<any[]>(worksheet, { header: 1, defval: '', blankrows: true });
+  return { rows, rowOffset: range.s.r, colOffset: range.s.c, merges: worksheet['!merges'] || [] };
+};
+
+const isBlankCell = (value: any) => value === undefined || value === null || String(value).trim() === '';
+
+// Scores each candidate row by how much it looks like a header: many distinct text cells,
+// a product-name column and dimension-like column names. Banner and logo rows score low
+// because a merged title is one distinct value.
+export const detectHeaderRow = (rows: any[][]): number => {
+  let bestIndex = 0;
+  let bestScore = -1;
+
+  rows.slice(0, HEADER_SCAN_ROWS).forEach((row, index) => {
+    const texts = new Set(
+      row.filter(v => !isBlankCell(v) && isNaN(Number(v))).map(v => String(v).trim().toLowerCase())
+    );
+    if (texts.size < 2) return;
+
+    let score = texts.size;
+    texts.forEach(text => {
+      if (PRODUCT_NAME_PATTERNS.slice(0, -1).some(p => p.test(text))) score += 5;
+      if (normalizeDimensionLabel(text) || /^(size|units?|sku)$/i.test(text)) score += 2;
+    });
+    // Numeric cells suggest a data row rather than a header
+    score -= row.filter(v => typeof v === 'number').length;
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestIndex = index;
+    }
+  });
+
+  return bestIndex;
+};
+
+// Merged header cells only store their value in the top-left cell. Spread it across the
+// merge where it touches the header row, and down vertical merges in the data (e.g. one
+// product name spanning several size rows). Horizontal merges in data rows are left alone
+// so a dimension cell is never counted twice.
+const fillMergedCells = (grid: SheetGrid, headerIndex: number) => {
+  grid.merges.forEach(merge => {
+    const top = merge.s.r - grid.rowOffset;
+    const bottom = merge.e.r - grid.rowOffset;
+    const left = merge.s.c - grid.colOffset;
+    const right = merge.e.c - grid.colOffset;
+    const touchesHeader = top <= headerIndex && bottom >= headerIndex;
+    if (!touchesHeader && left !== right) return;
+
+    const value = grid.rows[top]?.[left];
+    if (isBlankCell(value)) return;
+    for (let r = top; r <= bottom; r++) {
+      if (!grid.rows[r]) continue;
+      for (let c = left; c <= right; c++) {
+        if (isBlankCell(grid.rows[r][c])) grid.rows[r][c] = value;
+      }
+    }
+  });
+};
+
+// "Height Min" / "Height Max" columns (or "Min Height", "Height (max)") become one range dimension
+const MIN_MAX_PATTERN = /\b(min|minimum|max|maximum)\b\.?/i;
+
+const mergeMinMaxColumns = (dimensions: SpecDimension[]): SpecDimension[] => {
+  const baseOf = (header: string) => header.replace(MIN_MAX_PATTERN, ' ').replace(/[()\[\]]/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase();
+  const isMax = (header: string) => /^max/i.test(header.match(MIN_MAX_PATTERN)?.[1] || '');
+
+  const merged: SpecDimension[] = [];
+  const used = new Set<SpecDimension>();
+  for (const dim of dimensions) {
+    if (used.has(dim) || dim.max !== undefined || !MIN_MAX_PATTERN.test(dim.header) || isMax(dim.header)) continue;
+    const partner = dimensions.find(other =>
+      !used.has(other) && other.max === undefined && isMax(other.header) && baseOf(other.header) === baseOf(dim.header)
+    );
+    if (!partner || partner.value < dim.value) continue;
+    used.add(dim);
+    used.add(partner);
+    merged.push({ ...dim, max: partner.value, header: dim.header.replace(MIN_MAX_PATTERN, '').replace(/\s+/g, ' ').trim() });
+  }
+  return [...merged, ...dimensions.filter(dim => !used.has(dim))];
+};
+
+interface SheetLayout {
+  grid: SheetGrid;
+  headerIndex: number; // Index into grid.rows
+  headers: string[];   // Unique header name per grid column ('' for blank headers)
+  dataStart: number;   // Index into grid.rows of the first data row
+}
+
+const resolveSheetLayout = (worksheet: WorkSheet, config?: ValidationConfig): SheetLayout => {
+  const grid = readSheetGrid(worksheet);
+
+  // Header row: manual override (1-based sheet row) or auto-detected
+  const headerIndex = config?.headerRow
+    ? Math.max(0, config.headerRow - 1 - grid.rowOffset)
+    : detectHeaderRow(grid.rows);
+  fillMergedCells(grid, headerIndex);
+
+  // Header names, made unique the same way sheet_to_json does ("Width", "Width_1")
+  const seen = new Map<string, number>();
+  const headers: string[] = (grid.rows[headerIndex] || []).map(value => {
+    const name = isBlankCell(value) ? '' : String(value).trim();
+    if (!name) return '';
+    const count = seen.get(name) || 0;
+    seen.set(name, count + 1);
+    return count === 0 ? name : `${name}_${count}`;
+  });
+
+  // Data rows start below the header unless configured otherwise
+  const dataStart = config?.dataStartRow
+    ? Math.max(headerIndex + 1, config.dataStartRow - 1 - grid.rowOffset)
+    : headerIndex + 1;
+
+  return { grid, headerIndex, headers, dataStart };
+};
+
+// Parse-time problems are pushed to `issues` when given; cross-row checks live in specLint
+const parseSheet = (worksheet: WorkSheet, sheetName: string, config?: ValidationConfig, issues?: SpecIssue[]): SpecRow[] => {
+  const { grid, headers, dataStart } = resolveSheetLayout(worksheet, config);
+  if (grid.rows.length === 0) return [];
+  const keys = headers.filter(h => h);
+
+  const jsonData: { row: Record<string, any>; rowNumber: number }[] = grid.rows
+    .map((cells, i) => ({ cells, rowNumber: i + grid.rowOffset + 1 }))
+    .slice(dataStart)
+    .filter(({ cells }) => cells.some(v => !isBlankCell(v)))
+    .map(({ cells, rowNumber }) => {
+      const row: Record<string, any> = {};
+      headers.forEach((name, i) => {
+        if (name && !isBlankCell(cells[i])) row[name] = cells[i];
+      });
+      return { row, rowNumber };
+    });
+
+  if (jsonData.length === 0) return [];
+
+  // Config letters are absolute sheet columns; grid indices start at the sheet's first used column
+  const letterToIndex = (letter: string) => colLetterToIndex(letter) - grid.colOffset;
+
+  const mapping = config?.columnMapping;
+  const mappedKey = (letter?: string) => (letter ? headers[letterToIndex(letter)] || undefined : undefined);
+
+  // Identify Product Name Column
+  let productNameKey = mappedKey(mapping?.productCol) || '';
+  for (const pattern of PRODUCT_NAME_PATTERNS) {
+      if (productNameKey) break;
+      const match = keys.find(k => pattern.test(k.trim()));
+      if (match) {
+          productNameKey = match;
+          break;
+      }
+  }
+  if (!productNameKey) productNameKey = 'Product Name';
+
+  const sizeKey = mapping ? mappedKey(mapping.sizeCol)
+    : keys.find(k => /^size$/i.test(k.trim()) || /^dimension$/i.test(k.trim())) || 'Size';
+  const skuKey = mapping ? mappedKey(mapping.skuCol)
+    : keys.find(k => /^(sku|item\s*(code|no\.?|number)|product\s*code|article(\s*no\.?)?|code)$/i.test(k.trim()));
+
+  // Column Range Logic: explicit mapping (may be non-contiguous) wins over the start/end range
+  let allowedIndices: number[] = [];
+  if (mapping) {
+     allowedIndices = mapping.dimensionCols.map(letterToIndex);
+  } else if (config && config.startCol && config.endCol) {
+     const start = letterToIndex(config.startCol);
+     const end = letterToIndex(config.endCol);
+     for (let i = start; i <= end; i++) allowedIndices.push(i);
+  } else {
+     allowedIndices = headers.map((_, i) => i);
+  }
+  const allowedKeys = allowedIndices.map(i => headers[i]).filter(k => k);
+
+  // Unit Column Logic: explicit letter from config, otherwise a header named "Unit"/"Units"/"UOM"
+  let unitKey: string | undefined;
+  if (config?.unitCol) {
+     unitKey = headers[letterToIndex(config.unitCol)];
+  } else {
+     unitKey = keys.find(k => /^(units?|uom)$/i.test(k.trim()));
+  }
+
+  // Tolerance Column Logic: same lookup as units, header containing "Tolerance"
+  let toleranceKey: string | undefined;
+  if (config?.toleranceCol) {
+     toleranceKey = headers[letterToIndex(config.toleranceCol)];
+  } else {
+     toleranceKey = keys.find(k => /toleran/i.test(k.trim()));
+  }
+
+  // Image requirement columns (min px, aspect ratio, file size, formats, colour space) are never dimensions
+  const imageRuleColumns = findImageRuleColumns(keys);
+  const imageRuleKeys = Object.values(imageRuleColumns);
+
+  // Decimal separator: the configured one, else whatever the sheet's text cells agree on.
+  // With no evidence either way, 'auto' reads only unambiguous numbers. A detected separator
+  // still leaves "1,200"-style values to the user: one "45,5" cell doesn't make them 1.2.
+  const configuredLocale = config?.numberLocale !== 'auto' ? config?.numberLocale : undefined;
+  const numberLocale = configuredLocale || detectNumberLocale(jsonData.flatMap(({ row }) => Object.values(row))) || 'auto';
+
+  // Map Rows
+  const specs: SpecRow[] = jsonData.map(({ row, rowNumber }) => {
+    const productName = String(row[productNameKey] || '').trim();
+    const size = (sizeKey && row[sizeKey]) || '';
+    const sku = skuKey && !isBlankCell(row[skuKey]) ? String(row[skuKey]).trim() : undefined;
+    const imageRules = readImageRules(row, imageRuleColumns);
+    const report = (issue: Omit<SpecIssue, 'sheet' | 'rowNumber' | 'productName'>) =>
+      issues?.push({ ...issue, sheet: sheetName, rowNumber, ...(productName ? { productName } : {}) });
+    
+    let dimensions: SpecDimension[] = [];
+    const rowIssues: Omit<SpecIssue, 'sheet' | 'rowNumber' | 'productName'>[] = [];
+    
+    Object.entries(row).forEach(([key, value]) => {
+       if (key === unitKey || key === toleranceKey || imageRuleKeys.includes(key)) return;
+       if (mapping || (config && config.startCol)) {
+           if (!allowedKeys.includes(key)) return;
+       } else {
+           const keyLower = key.toLowerCase();
+           if (['product', 'name', 'size', 'id', 'model', 'row', 'sku'].some(k => keyLower.includes(k))) return;
+       }
+
+       const column = colIndexToLetter(headers.indexOf(key) + grid.colOffset);
+       const headerLabel = normalizeDimensionLabel(key);
+       // A W/D/H marker inside the cell ("24"W x 18"D") beats the column header's label
+       const parts = parseDimensionText(value, numberLocale, !configuredLocale);
+       parts.forEach(({ value: num, max, label: partLabel }) => {
+           const label = partLabel || headerLabel;
+           const outOfBounds = [num, max].find(n => n !== undefined && (n <= MIN_PLAUSIBLE_DIMENSION || n >= MAX_PLAUSIBLE_DIMENSION));
+           if (outOfBounds === undefined) {
+               dimensions.push({ value: num, ...(max !== undefined ? { max } : {}), column, header: key, ...(label ? { label } : {}) });
+           } else {
+               rowIssues.push({
+                   check: 'OUT_OF_BOUNDS', severity: 'warning', column,
+                   message: `${key}: ${outOfBounds} is outside ${MIN_PLAUSIBLE_DIMENSION}–${MAX_PLAUSIBLE_DIMENSION} and was ignored`
+               });
+           }
+       });
+
+       findAmbiguousNumbers(value, numberLocale, !configuredLocale).forEach(text => {
+           rowIssues.push({
+               check: 'AMBIGUOUS_NUMBER', severity: 'error', column,
+               message: `${key}: "${text}" could be ${Number(text.replace(/[.,]/, '.'))} or ${text.replace(/[.,]/, '')} and was ignored; set the number format in settings`
+           });
+       });
+
+       const junk = findNonDimensionText(value);
+       if (junk) {
+           rowIssues.push({
+               check: 'NON_NUMERIC', severity: 'warning', column,
+               message: parts.length > 0
+                   ? `${key}: "${String(value).trim()}" contains text "${junk}"`
+                   : `${key}: "${String(value).trim()}" has no numeric value`
+           });
+       }
+    });
+
+    dimensions = mergeMinMaxColumns(dimensions).sort((a, b) => a.value - b.value);
+
+    if (!productName || !toSlug(productName)) {
+        if (dimensions.length > 0) {
+            report({ check: 'MISSING_NAME', severity: 'warning', message: 'Row has dimensions but no product name and was skipped' });
+        }
+    } else {
+        rowIssues.forEach(report);
+        if (dimensions.length === 0) {
+            report({ check: 'NO_DIMENSIONS', severity: 'error', message: 'No usable dimensions; images for this product can never validate' });
+        }
+    }
+
+    return {
+      productName: productName,
+      productSlug: toSlug(productName), // Pre-calculate slug here
+      size: String(size).trim(),
+      ...(sku ? { sku } : {}),
+      expectedDimensions: dimensions.map(d => d.value),
+      dimensions,
+      unit: (unitKey && normalizeUnit(row[unitKey])) || config?.specUnit,
+      tolerance: toleranceKey ? parseToleranceRule(row[toleranceKey]) : undefined,
+      sheet: sheetName,
+      rowNumber,
+      ...(imageRules ? { imageRules } : {}),
+      originalRow: row
+    };
+  });
+
+  // Filter out empty rows
+  return specs.filter(s => s.productName && s.productSlug.length > 0);
+};
+
+// Reads the sheets chosen in config (first sheet when none are chosen) and merges their rows
+const selectedSheetNames = (workbook: WorkBook, config?: ValidationConfig): string[] => {
+  const selected = (config?.sheets || []).filter(name => workbook.SheetNames.includes(name));
+  return selected.length > 0 ? selected : workbook.SheetNames.slice(0, 1);
+};
+
+export const parseSpecWorkbook = (workbook: WorkBook, config?: ValidationConfig, issues?: SpecIssue[]): SpecRow[] =>
+  selectedSheetNames(workbook, config).flatMap(name => parseSheet(workbook.Sheets[name], name, config, issues));
+
+export const parseSpecFile = async (file: File, config?: ValidationConfig, issues?: SpecIssue[]): Promise<SpecRow[]> => {
+  const workbook = await readSpecWorkbook(file);
+  return parseSpecWorkbook(workbook, config, issues);
+};
+
+// Raw view of the first selected sheet for the column mapping screen
+export const previewSpecSheet = (workbook: WorkBook, config?: ValidationConfig, maxRows = 12): SpecSheetPreview => {
+  const sheetName = selectedSheetNames(workbook, config)[0];
+  const { grid, headerIndex, headers, dataStart } = resolveSheetLayout(workbook.Sheets[sheetName], config);
+  const width = Math.max(headers.length, ...grid.rows.slice(dataStart, dataStart + maxRows).map(r => r.length));
+
+  return {
+    sheetName,
+    headerRowNumber: headerIndex + grid.rowOffset + 1,
+    columns: Array.from({ length: width }, (_, i) => ({
+      letter: colIndexToLetter(i + grid.colOffset),
+      header: headers[i] || ''
+    })),
+    rows: grid.rows.slice(dataStart, dataStart + maxRows).map((cells, i) => ({
+      rowNumber: dataStart + i + grid.rowOffset + 1,
+      cells: Array.from({ length: width }, (_, c) => (isBlankCell(cells[c]) ? '' : String(cells[c])))
+    }))
+  };
+};
+
+// Starting point for the mapping screen: header-name guesses plus the configured column range
+export const suggestColumnMapping = (preview: SpecSheetPreview, config?: ValidationConfig): ColumnMapping => {
+  if (config?.columnMapping) return config.columnMapping;
+
+  const find = (test: (header: string) => boolean) => preview.columns.find(c => c.header && test(c.header))?.letter;
+  const productCol = PRODUCT_NAME_PATTERNS.map(p => find(h => p.test(h))).find(Boolean);
+  const sizeCol = find(h => /^(size|dimension)$/i.test(h));
+  const skuCol = find(h => /^(sku|item\s*(code|no\.?|number)|product\s*code|article(\s*no\.?)?|code)$/i.test(h));
+
+  const start = config?.startCol ? colLetterToIndex(config.startCol) : -1;
+  const end = config?.endCol ? colLetterToIndex(config.endCol) : -1;
+  const dimensionCols = preview.columns
+    .filter(c => {
+      if ([productCol, sizeCol, skuCol].includes(c.letter)) return false;
+      const index = colLetterToIndex(c.letter);
+      return start >= 0 ? index >= start && index <= end : !!normalizeDimensionLabel(c.header);
+    })
+    .map(c => c.letter);
+
+  return { productCol, sizeCol, skuCol, dimensionCols };
+};
+
 export const findMatchingSpec = (fileName: string, specs: SpecRow[]): SpecRow | undefined => {
   const matches = findAllMatchingSpecs(fileName, specs);
   return matches.length > 0 ? matches[0] : undefined;
@@ -135,8 +550,11 @@ export const findAllMatchingSpecs = (fileName: string, specs: SpecRow[]): SpecRo
   // 1. Normalize File Name
   // Remove extension first
   const fileStem = fileName.replace(/\.[^/.]+$/, "");
-  const fileSlug = toSlug(fileStem);
-  
+  return findSpecsBySlug(toSlug(fileStem), specs);
+};
+
+// Same containment check for a key that is already slugified (e.g. a filename rule's product group)
+export const findSpecsBySlug = (fileSlug: string, specs: SpecRow[]): SpecRow[] => {
   if (!fileSlug) return [];
 
   const candidates: SpecRow[] = [];
@@ -173,49 +591,132 @@ export const findAllMatchingSpecs = (fileName: string, specs: SpecRow[]): SpecRo
   return candidates;
 };
 
-export const validateDimensions = (detected: number[], spec: SpecRow): ValidationResult => {
-  const sortedDetected = [...detected].sort((a, b) => a - b);
-  const sortedExpected = [...spec.expectedDimensions].sort((a, b) => a - b);
+// Detected values are converted into the spec unit before matching.
+// If either side has no recognised unit, raw numbers are compared as before.
+// Each expected value is matched within its own tolerance (see resolveTolerance).
+// Range specs accept anything between their ends; tolerance applies beyond either end.
+//
+// Pass 1 pairs expected and detected values that share an axis label.
+// Pass 2 falls back to nearest-value matching, but never pairs two different labels,
+// so a width cannot validate against a similar-looking height.
+export const validateDimensions = (
+  result: Pick<GeminiResponse, 'dimensions' | 'units' | 'measurements'>,
+  spec: SpecRow,
+  config?: ValidationConfig
+): ValidationResult => {
+  const conversion = getUnitConversion(normalizeUnit(result.units), spec.unit);
+  const factor = conversion ? conversion.factor : 1;
+
+  const detectedSource: Measurement[] = result.measurements && result.measurements.length > 0
+    ? result.measurements
+    : result.dimensions.map(value => ({ value }));
 
-  const matches: { expected: number; detected: number; diff: number }[] = [];
+  const sortedDetected = detectedSource
+    .map(m => ({ value: roundDimension(m.value * factor), original: m.value, label: m.label }))
+    .sort((a, b) => a.value - b.value);
+  const sortedExpected = [...spec.dimensions].sort((a, b) => a.value - b.value);
+
+  const matches: ValidationResult['matches'] = [];
+  const mismatches: ValidationResult['mismatches'] = [];
   const missing: number[] = [];
-  const extra: number[] = [...sortedDetected];
+  const missingRanges: { min: number; max: number }[] = [];
+  const extra = [...sortedDetected];
+  const unpaired: SpecDimension[] = [];
+
+  const takeMatch = (dim: SpecDimension, idx: number, tolerance: AppliedTolerance, label?: DimensionLabel) => {
+    const found = extra[idx];
+    matches.push({
+      expected: dim.value,
+      ...(dim.max !== undefined ? { expectedMax: dim.max } : {}),
+      detected: found.value,
+      diff: roundDimension(distanceTo(dim, found.value)),
+      tolerance,
+      ...(label ? { label } : {}),
+      ...(conversion ? { original: found.original } : {})
+    });
+    extra.splice(idx, 1);
+  };
 
-  for (const exp of sortedExpected) {
+  // Pass 1: Same-label pairing
+  for (const dim of sortedExpected) {
+    const tolerance = resolveTolerance(dim, spec, config);
+    if (!dim.label) {
+      unpaired.push(dim);
+      continue;
+    }
+
+    let bestIdx = -1;
+    let minDiff = Number.MAX_VALUE;
+    for (let i = 0; i < extra.length; i++) {
+      if (extra[i].label !== dim.label) continue;
+      const diff = distanceTo(dim, extra[i].value);
+      if (diff < minDiff) {
+        minDiff = diff;
+        bestIdx = i;
+      }
+    }
+
+    if (bestIdx === -1) {
+      unpaired.push(dim);
+    } else if (minDiff <= tolerance.allowed) {
+      takeMatch(dim, bestIdx, tolerance, dim.label);
+    } else {
+      mismatches.push({
+        label: dim.label,
+        expected: dim.value,
+        ...(dim.max !== undefined ? { expectedMax: dim.max } : {}),
+        detected: extra[bestIdx].value,
+        diff: roundDimension(minDiff),
+        tolerance
+      });
+      extra.splice(bestIdx, 1);
+    }
+  }
+
+  // Pass 2: Unlabeled fallback (nearest value within tolerance)
+  for (const dim of unpaired) {
+    const tolerance = resolveTolerance(dim, spec, config);
     let bestMatchIdx = -1;
     let minDiff = Number.MAX_VALUE;
 
     for (let i = 0; i < extra.length; i++) {
-      const diff = Math.abs(exp - extra[i]);
-      if (diff <= TOLERANCE && diff < minDiff) {
+      if (dim.label && extra[i].label && extra[i].label !== dim.label) continue;
+      const diff = distanceTo(dim, extra[i].value);
+      if (diff <= tolerance.allowed && diff < minDiff) {
         minDiff = diff;
         bestMatchIdx = i;
       }
     }
 
     if (bestMatchIdx !== -1) {
-      matches.push({
-        expected: exp,
-        detected: extra[bestMatchIdx],
-        diff: minDiff
-      });
-      extra.splice(bestMatchIdx, 1);
+      takeMatch(dim, bestMatchIdx, tolerance);
+    } else if (dim.max !== undefined) {
+      missingRanges.push({ min: dim.value, max: dim.max });
     } else {
-      missing.push(exp);
+      missing.push(dim.value);
     }
   }
 
   let status: ValidationResult['status'] = 'MISMATCH';
+  const missingCount = missing.length + missingRanges.length;
 
-  if (missing.length === 0 && extra.length === 0) {
+  if (mismatches.length > 0) {
+    status = 'MISMATCH';
+  } else if (missingCount === 0 && extra.length === 0) {
     status = 'PERFECT';
-  } else if (missing.length > 0 && extra.length === 0) {
+  } else if (missingCount > 0 && extra.length === 0) {
     status = 'MISSING';
-  } else if (missing.length === 0 && extra.length > 0) {
+  } else if (missingCount === 0 && extra.length > 0) {
     status = 'EXTRA';
   } else {
     status = 'MISMATCH';
   }
 
-  return { status, matchedRow: spec, matches, missing, extra };
-};
\ No newline at end of file
+  matches.sort((a, b) => a.expected - b.expected);
+  missing.sort((a, b) => a - b);
+
+  return {
+    status, matchedRow: spec, matches, mismatches, missing, extra: extra.map(e => e.value), conversion,
+    ...(missingRanges.length > 0 ? { missingRanges } : {})
+  };
+};